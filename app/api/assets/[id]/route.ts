@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { readAsset } from "@/lib/storage";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const stored = await readAsset(id);
+
+    if (!stored) {
+      return NextResponse.json({ error: "Asset not found" }, { status: 404 });
+    }
+
+    return new Response(new Uint8Array(stored.data), {
+      status: 200,
+      headers: {
+        "Content-Type": stored.asset.mimeType,
+        "Content-Length": String(stored.asset.size),
+        // Assets are immutable once written.
+        "Cache-Control": "private, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    console.error("Error reading asset:", error);
+    return NextResponse.json(
+      { error: "Failed to read asset" },
+      { status: 500 }
+    );
+  }
+}
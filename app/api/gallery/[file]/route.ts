@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { staticFilesUrl } from "@/lib/constants";
+
+const GALLERY_FILE = /^[\w.-]+\.mp4$/;
+
+/** Upstream headers the browser needs to play and seek the video. */
+const FORWARDED_HEADERS = [
+  "Accept-Ranges",
+  "Content-Length",
+  "Content-Range",
+  "Content-Type",
+];
+
+/**
+ * Serves a gallery video from this origin, so the browser can read its
+ * frames. Only fetches the gallery's own files.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ file: string }> }
+) {
+  try {
+    const { file } = await params;
+    if (!GALLERY_FILE.test(file)) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    const range = req.headers.get("range");
+    const upstream = await fetch(staticFilesUrl + file, {
+      headers: range ? { Range: range } : {},
+      signal: req.signal,
+    });
+    if (!upstream.ok) {
+      return NextResponse.json(
+        { error: "Video not found" },
+        { status: upstream.status === 404 ? 404 : 502 }
+      );
+    }
+
+    const headers = new Headers({ "Cache-Control": "public, max-age=86400" });
+    for (const name of FORWARDED_HEADERS) {
+      const value = upstream.headers.get(name);
+      if (value) headers.set(name, value);
+    }
+    return new Response(upstream.body, { status: upstream.status, headers });
+  } catch (error) {
+    console.error("Error fetching gallery video:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch gallery video" },
+      { status: 500 }
+    );
+  }
+}
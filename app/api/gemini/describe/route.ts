@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { GenerationError, getProvider, InlineImage } from "@/lib/ai";
+import { errorResponse, invalidFields } from "@/lib/api-errors";
+import { resolveApiKey } from "@/lib/api-key";
+import { getModel, ModelInfo, PROMPT_WRITER_MODEL } from "@/lib/models";
+import { describeImageInstructions } from "@/lib/prompt-writing";
+import { describeImageSchema } from "@/lib/schemas";
+import { validate } from "@/lib/validation";
+
+/** Writes a prompt for the target `model` that would recreate an image. */
+export async function POST(req: Request) {
+  try {
+    const contentType = req.headers.get("content-type") || "";
+
+    if (!contentType.includes("multipart/form-data")) {
+      return invalidFields([
+        { field: "body", message: "Expected multipart/form-data" },
+      ]);
+    }
+
+    const form = await req.formData();
+    const model = (form.get("model") as string) || undefined;
+    const imageFile = form.get("imageFile");
+
+    const images: InlineImage[] = [];
+    if (imageFile && imageFile instanceof File) {
+      const buf = await imageFile.arrayBuffer();
+      images.push({
+        imageBytes: Buffer.from(buf).toString("base64"),
+        mimeType: imageFile.type || "image/png",
+      });
+    }
+
+    const issues = validate(describeImageSchema, {
+      model,
+      images: images.map((image) => image.mimeType),
+    });
+    if (issues.length > 0) {
+      return invalidFields(issues);
+    }
+
+    const target = getModel(model as string) as ModelInfo;
+
+    const { apiKey, source: keySource } = await resolveApiKey();
+    const prompt = await getProvider(apiKey).generateText({
+      model: PROMPT_WRITER_MODEL,
+      instructions: describeImageInstructions(target),
+      prompt: "Describe this image.",
+      images,
+      signal: req.signal,
+    });
+
+    if (!prompt.trim()) {
+      throw new GenerationError("NO_OUTPUT", "No description generated");
+    }
+
+    return NextResponse.json({ prompt: prompt.trim(), keySource });
+  } catch (error) {
+    console.error("Error describing image with Gemini:", error);
+    return errorResponse(error, "Failed to describe image");
+  }
+}
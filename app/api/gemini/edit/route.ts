@@ -1,29 +1,33 @@
 import { NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
-
-if (!process.env.GEMINI_API_KEY) {
-  throw new Error("GEMINI_API_KEY environment variable is not set.");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+import { GenerationError, getProvider, InlineImage } from "@/lib/ai";
+import { errorResponse, invalidFields } from "@/lib/api-errors";
+import { resolveApiKey } from "@/lib/api-key";
+import { COMPOSE_ROLES, composeInstructions } from "@/lib/compose";
+import { appendEditTurns, getEditHistory } from "@/lib/edit-sessions";
+import { checkModelSupport, defaultModelFor } from "@/lib/models";
+import { geminiEditSchema } from "@/lib/schemas";
+import { formNumber, validate } from "@/lib/validation";
+import { ComposeRole } from "@/types/studio";
 
 export async function POST(req: Request) {
   try {
     const contentType = req.headers.get("content-type") || "";
 
     if (!contentType.includes("multipart/form-data")) {
-      return NextResponse.json(
-        { error: "Expected multipart/form-data" },
-        { status: 400 }
-      );
+      return invalidFields([
+        { field: "body", message: "Expected multipart/form-data" },
+      ]);
     }
 
     const form = await req.formData();
-    const prompt = (form.get("prompt") as string) || "";
-
-    if (!prompt) {
-      return NextResponse.json({ error: "Missing prompt" }, { status: 400 });
-    }
+    const prompt = form.get("prompt") || undefined;
+    const model =
+      (form.get("model") as string) || defaultModelFor("edit-image").id;
+    const seed = formNumber(form, "seed");
+    // Continues an earlier conversation; a new one starts when it expired.
+    const sessionId = (form.get("sessionId") as string) || undefined;
+    // Compose mode: one role per entry of imageFiles, in the same order
+    const roles = form.getAll("imageRoles").map(String);
 
     // Handle multiple image files
     const imageFiles = form.getAll("imageFiles");
@@ -37,13 +41,7 @@ export async function POST(req: Request) {
       }))
     );
 
-    const contents: (
-      | { text: string }
-      | { inlineData: { mimeType: string; data: string } }
-    )[] = [];
-
-    // Add the prompt as text
-    contents.push({ text: prompt });
+    const images: InlineImage[] = [];
 
     // Process each image file
     console.log("Processing image files...");
@@ -54,30 +52,26 @@ export async function POST(req: Request) {
         );
         const buf = await imageFile.arrayBuffer();
         const b64 = Buffer.from(buf).toString("base64");
-        contents.push({
-          inlineData: {
-            mimeType: imageFile.type || "image/png",
-            data: b64,
-          },
+        images.push({
+          imageBytes: b64,
+          mimeType: imageFile.type || "image/png",
         });
       }
     }
-    console.log("Total contents after processing:", contents.length);
+    console.log("Total images after processing:", images.length);
 
     // Handle single image (backward compatibility)
     const singleImageFile = form.get("imageFile");
     if (
       singleImageFile &&
       singleImageFile instanceof File &&
-      contents.length === 1
+      images.length === 0
     ) {
       const buf = await singleImageFile.arrayBuffer();
       const b64 = Buffer.from(buf).toString("base64");
-      contents.push({
-        inlineData: {
-          mimeType: singleImageFile.type || "image/png",
-          data: b64,
-        },
+      images.push({
+        imageBytes: b64,
+        mimeType: singleImageFile.type || "image/png",
       });
     }
 
@@ -85,62 +79,109 @@ export async function POST(req: Request) {
     const imageBase64 = (form.get("imageBase64") as string) || undefined;
     const imageMimeType = (form.get("imageMimeType") as string) || undefined;
 
-    if (imageBase64 && contents.length === 1) {
+    if (imageBase64 && images.length === 0) {
       const cleaned = imageBase64.includes(",")
         ? imageBase64.split(",")[1]
         : imageBase64;
-      contents.push({
-        inlineData: {
-          mimeType: imageMimeType || "image/png",
-          data: cleaned,
-        },
+      images.push({
+        imageBytes: cleaned,
+        mimeType: imageMimeType || "image/png",
       });
     }
 
-    if (contents.length < 2) {
-      return NextResponse.json(
-        { error: "No images provided for editing" },
-        { status: 400 }
-      );
+    // Optional inpainting mask: white marks the region to change
+    const maskFile = form.get("maskFile");
+    const maskMode = (form.get("maskMode") as string) || undefined;
+    let mask: InlineImage | undefined;
+    if (maskFile && maskFile instanceof File) {
+      const buf = await maskFile.arrayBuffer();
+      mask = {
+        imageBytes: Buffer.from(buf).toString("base64"),
+        mimeType: maskFile.type || "image/png",
+      };
     }
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-image-preview",
-      contents: contents,
+    const issues = [
+      ...validate(geminiEditSchema, {
+        prompt,
+        model,
+        images: images.map((image) => image.mimeType),
+        mask: mask ? [mask.mimeType] : [],
+        maskMode,
+        seed,
+        sessionId,
+      }),
+      ...checkModelSupport(model, {
+        imageCount: images.length + (mask ? 1 : 0),
+        seed,
+      }),
+    ];
+    if (mask && images.length !== 1) {
+      issues.push({
+        field: "mask",
+        message: "A mask applies to exactly one image",
+      });
+    }
+    if (maskMode && !mask) {
+      issues.push({ field: "maskMode", message: "Requires a mask" });
+    }
+    if (roles.length > 0 && roles.length !== images.length) {
+      issues.push({ field: "imageRoles", message: "Needs one role per image" });
+    }
+    const unknownRole = roles.find(
+      (role) => !COMPOSE_ROLES.some((option) => option.role === role)
+    );
+    if (unknownRole !== undefined) {
+      issues.push({
+        field: "imageRoles",
+        message: `Unknown role "${unknownRole}"`,
+      });
+    }
+    if (issues.length > 0) {
+      return invalidFields(issues);
+    }
+
+    const history = sessionId ? getEditHistory(sessionId) ?? [] : [];
+    const instructions =
+      roles.length > 0
+        ? composeInstructions(prompt as string, roles as ComposeRole[])
+        : (prompt as string);
+
+    const { apiKey, source: keySource } = await resolveApiKey();
+    const edited = await getProvider(apiKey).editImage({
+      model,
+      prompt: instructions,
+      images,
+      mask,
+      maskMode: maskMode as "inpaint" | "outpaint" | undefined,
+      history,
+      seed,
+      signal: req.signal,
     });
 
-    // Process the response to extract the image
-    let imageData = null;
-    let responseMimeType = "image/png";
-
-    for (const part of response.candidates[0].content.parts) {
-      if (part.text) {
-        console.log("Generated text:", part.text);
-      } else if (part.inlineData) {
-        imageData = part.inlineData.data;
-        responseMimeType = part.inlineData.mimeType || "image/png";
-        break;
-      }
+    // A text-only answer is a valid turn, e.g. a clarifying question.
+    if (edited.images.length === 0 && !edited.text) {
+      throw new GenerationError("NO_OUTPUT", "No image generated");
     }
 
-    if (!imageData) {
-      return NextResponse.json(
-        { error: "No image generated" },
-        { status: 500 }
-      );
-    }
+    const nextSessionId = appendEditTurns(
+      sessionId,
+      {
+        role: "user",
+        text: instructions,
+        images: mask ? [...images, mask] : images,
+      },
+      { role: "model", text: edited.text, images: edited.images }
+    );
 
     return NextResponse.json({
-      image: {
-        imageBytes: imageData,
-        mimeType: responseMimeType,
-      },
+      images: edited.images,
+      text: edited.text,
+      sessionId: nextSessionId,
+      keySource,
     });
   } catch (error) {
     console.error("Error editing image with Gemini:", error);
-    return NextResponse.json(
-      { error: "Failed to edit image" },
-      { status: 500 }
-    );
+    return errorResponse(error, "Failed to edit image");
   }
 }
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { GenerationError, getProvider } from "@/lib/ai";
+import { errorResponse, invalidFields } from "@/lib/api-errors";
+import { resolveApiKey } from "@/lib/api-key";
+import { getModel, ModelInfo, PROMPT_WRITER_MODEL } from "@/lib/models";
+import { enhancePromptInstructions } from "@/lib/prompt-writing";
+import { enhancePromptSchema } from "@/lib/schemas";
+import { validate } from "@/lib/validation";
+import { GenerationMode } from "@/types/studio";
+
+/** Expands a short idea into a full prompt for the given mode and model. */
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json().catch(() => null)) ?? {};
+    const prompt: string = body.prompt;
+    const model: string = body.model;
+    const mode: GenerationMode = body.mode;
+
+    const issues = validate(enhancePromptSchema, body);
+    const target = getModel(model);
+    if (target && mode && !target.modes.includes(mode)) {
+      issues.push({
+        field: "mode",
+        message: `${target.label} does not support ${mode}`,
+      });
+    }
+    if (issues.length > 0) {
+      return invalidFields(issues);
+    }
+
+    const { apiKey, source: keySource } = await resolveApiKey();
+    const enhanced = await getProvider(apiKey).generateText({
+      model: PROMPT_WRITER_MODEL,
+      instructions: enhancePromptInstructions(target as ModelInfo, mode),
+      prompt,
+      signal: req.signal,
+    });
+
+    if (!enhanced.trim()) {
+      throw new GenerationError("NO_OUTPUT", "No prompt generated");
+    }
+
+    return NextResponse.json({ prompt: enhanced.trim(), keySource });
+  } catch (error) {
+    console.error("Error enhancing prompt with Gemini:", error);
+    return errorResponse(error, "Failed to enhance prompt");
+  }
+}
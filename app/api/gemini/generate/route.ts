@@ -1,55 +1,41 @@
 import { NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
-
-if (!process.env.GEMINI_API_KEY) {
-  throw new Error("GEMINI_API_KEY environment variable is not set.");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+import { GenerationError, getProvider } from "@/lib/ai";
+import { errorResponse, invalidFields } from "@/lib/api-errors";
+import { resolveApiKey } from "@/lib/api-key";
+import { checkModelSupport, defaultModelFor } from "@/lib/models";
+import { geminiGenerateSchema } from "@/lib/schemas";
+import { validate } from "@/lib/validation";
 
 export async function POST(req: Request) {
   try {
-    const body = await req.json();
-    const prompt = (body?.prompt as string) || "";
-
-    if (!prompt) {
-      return NextResponse.json({ error: "Missing prompt" }, { status: 400 });
+    const body = (await req.json().catch(() => null)) ?? {};
+    const prompt: string = body.prompt;
+    const model: string = body.model || defaultModelFor("create-image").id;
+    const seed: number | undefined = body.seed;
+
+    const issues = [
+      ...validate(geminiGenerateSchema, body),
+      ...checkModelSupport(model, { seed }),
+    ];
+    if (issues.length > 0) {
+      return invalidFields(issues);
     }
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-image-preview",
-      contents: prompt,
+    const { apiKey, source: keySource } = await resolveApiKey();
+    const images = await getProvider(apiKey).generateImage({
+      model,
+      prompt,
+      seed,
+      signal: req.signal,
     });
 
-    // Process the response to extract the image
-    let imageData = null;
-    let imageMimeType = "image/png";
-
-    for (const part of response.candidates[0].content.parts) {
-      if (part.text) {
-        console.log("Generated text:", part.text);
-      } else if (part.inlineData) {
-        imageData = part.inlineData.data;
-        imageMimeType = part.inlineData.mimeType || "image/png";
-        break;
-      }
-    }
-
-    if (!imageData) {
-      return NextResponse.json({ error: "No image generated" }, { status: 500 });
+    if (images.length === 0) {
+      throw new GenerationError("NO_OUTPUT", "No image generated");
     }
 
-    return NextResponse.json({
-      image: {
-        imageBytes: imageData,
-        mimeType: imageMimeType,
-      },
-    });
+    return NextResponse.json({ images, keySource });
   } catch (error) {
     console.error("Error generating image with Gemini:", error);
-    return NextResponse.json(
-      { error: "Failed to generate image" },
-      { status: 500 }
-    );
+    return errorResponse(error, "Failed to generate image");
   }
 }
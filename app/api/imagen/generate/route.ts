@@ -1,46 +1,51 @@
 import { NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
-
-if (!process.env.GEMINI_API_KEY) {
-  throw new Error("GEMINI_API_KEY environment variable is not set.");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+import { GenerationError, getProvider } from "@/lib/ai";
+import { errorResponse, invalidFields } from "@/lib/api-errors";
+import { resolveApiKey } from "@/lib/api-key";
+import { checkModelSupport, findModels } from "@/lib/models";
+import { imagenGenerateSchema } from "@/lib/schemas";
+import { validate } from "@/lib/validation";
 
 export async function POST(req: Request) {
   try {
-    const body = await req.json();
-    const prompt = (body?.prompt as string) || "";
-    const model = (body?.model as string) || "imagen-4.0-fast-generate-001";
+    const body = (await req.json().catch(() => null)) ?? {};
+    const prompt: string = body.prompt;
+    const model: string =
+      body.model || findModels({ provider: "imagen" })[0].id;
+    const aspectRatio: string = body.aspectRatio || "16:9";
+    const numberOfOutputs: number | undefined = body.numberOfOutputs;
+    const personGeneration: string | undefined = body.personGeneration;
 
-    if (!prompt) {
-      return NextResponse.json({ error: "Missing prompt" }, { status: 400 });
+    const issues = [
+      ...validate(imagenGenerateSchema, body),
+      ...checkModelSupport(model, {
+        aspectRatio,
+        seed: body.seed,
+        numberOfOutputs,
+        personGeneration,
+      }),
+    ];
+    if (issues.length > 0) {
+      return invalidFields(issues);
     }
 
-    const resp = await ai.models.generateImages({
+    const { apiKey, source: keySource } = await resolveApiKey();
+    const images = await getProvider(apiKey).generateImage({
       model,
       prompt,
-      config: {
-        aspectRatio: "16:9",
-      },
+      aspectRatio,
+      numberOfImages: numberOfOutputs,
+      personGeneration,
+      signal: req.signal,
     });
 
-    const image = resp.generatedImages?.[0]?.image;
-    if (!image?.imageBytes) {
-      return NextResponse.json({ error: "No image returned" }, { status: 500 });
+    if (images.length === 0) {
+      throw new GenerationError("NO_OUTPUT", "No image returned");
     }
 
-    return NextResponse.json({
-      image: {
-        imageBytes: image.imageBytes,
-        mimeType: image.mimeType || "image/png",
-      },
-    });
+    return NextResponse.json({ images, keySource });
   } catch (error) {
     console.error("Error generating image:", error);
-    return NextResponse.json(
-      { error: "Failed to generate image" },
-      { status: 500 }
-    );
+    return errorResponse(error, "Failed to generate image");
   }
 }
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { cancelJob, jobOwner } from "@/lib/jobs";
+
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await cancelJob(id, await jobOwner());
+
+    if (!result) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error cancelling job:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel job" },
+      { status: 500 }
+    );
+  }
+}
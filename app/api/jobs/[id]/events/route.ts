@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { getOwnedJob, jobOwner, toJobEvent } from "@/lib/jobs";
+import { TERMINAL_JOB_STATUSES } from "@/lib/jobs/client";
+
+export const dynamic = "force-dynamic";
+
+/** How often the job record is re-read; the worker updates it from upstream. */
+const TICK_MS = 1000;
+
+/**
+ * Streams a job as Server-Sent Events: a `progress` event every tick while it
+ * runs, then a single `done` event once it settles.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const owner = await jobOwner();
+
+  if (!(await getOwnedJob(id, owner))) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        );
+
+      try {
+        while (!req.signal.aborted) {
+          const job = await getOwnedJob(id, owner);
+          if (!job) break;
+
+          if (TERMINAL_JOB_STATUSES.includes(job.status)) {
+            send("done", toJobEvent(job));
+            break;
+          }
+          send("progress", toJobEvent(job));
+          await new Promise((resolve) => setTimeout(resolve, TICK_MS));
+        }
+        controller.close();
+      } catch (error) {
+        // Enqueueing fails once the client has gone away.
+        if (!req.signal.aborted) {
+          console.error("Error streaming job events:", error);
+          controller.error(error);
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
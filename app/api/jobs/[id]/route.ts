@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { getOwnedJob, jobOwner } from "@/lib/jobs";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await getOwnedJob(id, await jobOwner());
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error("Error reading job:", error);
+    return NextResponse.json(
+      { error: "Failed to read job" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { errorResponse, invalidFields } from "@/lib/api-errors";
+import { resolveApiKey } from "@/lib/api-key";
+import { ERROR_STATUS } from "@/lib/errors";
+import {
+  ensureJobOwner,
+  jobOwner,
+  listOwnedJobs,
+  startVideoJob,
+} from "@/lib/jobs";
+import { parseVideoRequest } from "@/lib/video-request";
+
+export async function POST(req: Request) {
+  try {
+    const parsed = await parseVideoRequest(req);
+    if ("issues" in parsed) {
+      return invalidFields(parsed.issues);
+    }
+
+    const job = await startVideoJob(
+      parsed.params,
+      await resolveApiKey(),
+      await ensureJobOwner()
+    );
+    if (job.status === "failed") {
+      const code = job.errorCode ?? "UNKNOWN";
+      return NextResponse.json(
+        { error: job.error, code, details: job.errorDetails, job },
+        { status: ERROR_STATUS[code] }
+      );
+    }
+
+    return NextResponse.json({ job }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating job:", error);
+    return errorResponse(error, "Failed to create job");
+  }
+}
+
+/** The caller's jobs, recognised by its owner cookie. */
+export async function GET() {
+  try {
+    const jobs = await listOwnedJobs(await jobOwner());
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error("Error listing jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to list jobs" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { getProvider } from "@/lib/ai";
+import {
+  apiKeyStatus,
+  clearApiKeyCookie,
+  resolveApiKey,
+  setApiKeyCookie,
+} from "@/lib/api-key";
+import { errorResponse, invalidFields } from "@/lib/api-errors";
+import { apiKeySchema } from "@/lib/schemas";
+import { validate } from "@/lib/validation";
+
+export async function GET() {
+  const { apiKey } = await resolveApiKey();
+  return NextResponse.json(apiKeyStatus(apiKey));
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json().catch(() => null)) ?? {};
+    const apiKey =
+      typeof body.apiKey === "string" ? body.apiKey.trim() : body.apiKey;
+    const issues = validate(apiKeySchema, { apiKey });
+    if (issues.length > 0) {
+      return invalidFields(issues);
+    }
+
+    await getProvider(apiKey).checkKey();
+    await setApiKeyCookie(apiKey);
+
+    return NextResponse.json(apiKeyStatus(apiKey));
+  } catch (error) {
+    console.error("Error validating API key:", error);
+    return errorResponse(error, "Could not validate the API key");
+  }
+}
+
+export async function DELETE() {
+  await clearApiKeyCookie();
+  return NextResponse.json(apiKeyStatus());
+}
@@ -1,62 +1,35 @@
-import { NextResponse } from "next/server";
-
-if (!process.env.GEMINI_API_KEY) {
-  throw new Error("GEMINI_API_KEY environment variable is not set.");
-}
+import { getProvider } from "@/lib/ai";
+import { errorResponse, invalidFields } from "@/lib/api-errors";
+import { resolveApiKey } from "@/lib/api-key";
+import { videoDownloadSchema } from "@/lib/schemas";
+import { validate } from "@/lib/validation";
 
+/**
+ * Streams a generated video. The provider only fetches its own file URIs, so
+ * the API key is never sent anywhere else.
+ */
 export async function POST(req: Request) {
   try {
-    const body = await req.json();
-    const uri: string | undefined = body?.uri || body?.file?.uri;
-
-    if (!uri) {
-      return NextResponse.json({ error: "Missing file uri" }, { status: 400 });
-    }
-
-    const resp = await fetch(uri, {
-      headers: {
-        "x-goog-api-key": process.env.GEMINI_API_KEY as string,
-        Accept: "*/*",
-      },
-      redirect: "follow",
-    });
-
-    if (!resp.ok) {
-      const text = await resp.text().catch(() => "");
-      return NextResponse.json(
-        {
-          error: `Upstream download failed: ${resp.status} ${resp.statusText}`,
-          details: text,
-        },
-        { status: 502 }
-      );
+    const body = (await req.json().catch(() => null)) ?? {};
+    const uri = body.uri || body.file?.uri;
+    const issues = validate(videoDownloadSchema, { uri });
+    if (issues.length > 0) {
+      return invalidFields(issues);
     }
 
-    if (resp.body) {
-      return new Response(resp.body, {
-        status: 200,
-        headers: {
-          "Content-Type": resp.headers.get("content-type") || "video/mp4",
-          "Content-Disposition": `inline; filename="veo3_video.mp4"`,
-          "Cache-Control": "no-store",
-        },
-      });
-    }
+    const { apiKey } = await resolveApiKey();
+    const video = await getProvider(apiKey).downloadVideo(uri);
 
-    const arrayBuffer = await resp.arrayBuffer();
-    return new Response(arrayBuffer, {
+    return new Response(video.body, {
       status: 200,
       headers: {
-        "Content-Type": resp.headers.get("content-type") || "video/mp4",
+        "Content-Type": video.contentType,
         "Content-Disposition": `inline; filename="veo3_video.mp4"`,
         "Cache-Control": "no-store",
       },
     });
   } catch (error: unknown) {
     console.error("Error downloading video:", error);
-    return NextResponse.json(
-      { error: "Failed to download video" },
-      { status: 500 }
-    );
+    return errorResponse(error, "Failed to download video");
   }
 }
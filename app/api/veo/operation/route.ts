@@ -1,36 +1,25 @@
 import { NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
-
-if (!process.env.GEMINI_API_KEY) {
-  throw new Error("GEMINI_API_KEY environment variable is not set.");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+import { getProvider } from "@/lib/ai";
+import { errorResponse, invalidFields } from "@/lib/api-errors";
+import { resolveApiKey } from "@/lib/api-key";
+import { videoOperationSchema } from "@/lib/schemas";
+import { validate } from "@/lib/validation";
 
 export async function POST(req: Request) {
   try {
-    const body = await req.json();
-    const name = body.name as string | undefined;
-
-    if (!name) {
-      return NextResponse.json(
-        { error: "Missing operation name" },
-        { status: 400 }
-      );
+    const body = (await req.json().catch(() => null)) ?? {};
+    const issues = validate(videoOperationSchema, body);
+    if (issues.length > 0) {
+      return invalidFields(issues);
     }
+    const name: string = body.name;
 
-    // Some SDK versions accept just the name, others expect an operation object.
-    // We'll pass the minimal required shape with a name.
-    const fresh = await ai.operations.getVideosOperation({
-      operation: { name } as unknown as never,
-    });
+    const { apiKey } = await resolveApiKey();
+    const fresh = await getProvider(apiKey).pollVideo(name);
 
     return NextResponse.json(fresh);
   } catch (error) {
     console.error("Error polling operation:", error);
-    return NextResponse.json(
-      { error: "Failed to poll operation" },
-      { status: 500 }
-    );
+    return errorResponse(error, "Failed to poll operation");
   }
 }
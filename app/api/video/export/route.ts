@@ -0,0 +1,92 @@
+import { errorResponse, invalidFields } from "@/lib/api-errors";
+import {
+  VIDEO_MIME_TYPES,
+  videoExportSchema,
+  videoSegmentSchema,
+} from "@/lib/schemas";
+import { formNumbers, validate } from "@/lib/validation";
+import { trimVideo } from "@/lib/video";
+import { exportEvents } from "@/lib/video/stream";
+import { ExportFormat, VideoRange } from "@/types/video";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Keeps the given segments of an uploaded video, joined in order, and
+ * re-encodes them with ffmpeg. Each segment is a `start`/`end` field pair;
+ * they must be in order and not overlap. Streams its progress as Server-Sent
+ * Events (see `exportEvents`).
+ */
+export async function POST(req: Request) {
+  try {
+    const contentType = req.headers.get("content-type") || "";
+
+    if (!contentType.includes("multipart/form-data")) {
+      return invalidFields([
+        { field: "body", message: "Expected multipart/form-data" },
+      ]);
+    }
+
+    const form = await req.formData();
+    const videoFile = form.get("videoFile");
+    const starts = formNumbers(form, "start");
+    const ends = formNumbers(form, "end");
+    const format = ((form.get("format") as string) || "mp4") as ExportFormat;
+
+    const issues = validate(videoExportSchema, {
+      segments: starts.length,
+      format,
+    });
+    if (ends.length !== starts.length) {
+      issues.push({ field: "end", message: "Needs one end per start" });
+    }
+    if (!(videoFile instanceof File)) {
+      issues.push({ field: "videoFile", message: "Required" });
+    } else if (
+      !VIDEO_MIME_TYPES.some((type) => videoFile.type.startsWith(type))
+    ) {
+      issues.push({
+        field: "videoFile",
+        message: `Unsupported video type "${videoFile.type || "unknown"}"`,
+      });
+    }
+    const ranges: VideoRange[] = [];
+    starts.forEach((start, i) => {
+      const end = ends[i];
+      const found = validate(videoSegmentSchema, { start, end });
+      if (found.length === 0 && start !== undefined && end !== undefined) {
+        const previous = ranges[ranges.length - 1];
+        if (end <= start) {
+          found.push({ field: "end", message: "Must be after start" });
+        } else if (previous && start < previous.end) {
+          found.push({
+            field: "start",
+            message: "Must not start before the previous segment ends",
+          });
+        } else {
+          ranges.push({ start, end });
+        }
+      }
+      // Name the segment only when there is more than one
+      const label = starts.length > 1 ? `Segment ${i + 1}: ` : "";
+      issues.push(
+        ...found.map(({ field, message }) => ({
+          field,
+          message: label + message,
+        }))
+      );
+    });
+    if (issues.length > 0) {
+      return invalidFields(issues);
+    }
+
+    const input = Buffer.from(await (videoFile as File).arrayBuffer());
+
+    return exportEvents(req.signal, (onProgress) =>
+      trimVideo(input, ranges, format, { onProgress, signal: req.signal })
+    );
+  } catch (error) {
+    console.error("Error exporting video:", error);
+    return errorResponse(error, "Failed to export video");
+  }
+}
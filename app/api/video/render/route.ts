@@ -0,0 +1,32 @@
+import { errorResponse, invalidFields } from "@/lib/api-errors";
+import { renderTimeline } from "@/lib/video";
+import { parseRenderRequest } from "@/lib/video/render-request";
+import { exportEvents } from "@/lib/video/stream";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Renders a timeline of clips into one video with ffmpeg (see
+ * `parseRenderRequest` for the fields). Streams its progress as Server-Sent
+ * Events (see `exportEvents`).
+ */
+export async function POST(req: Request) {
+  try {
+    const parsed = await parseRenderRequest(req);
+    if ("issues" in parsed) {
+      return invalidFields(parsed.issues);
+    }
+
+    const { clips, format, transitionSeconds } = parsed;
+    return exportEvents(req.signal, (onProgress) =>
+      renderTimeline(clips, format, {
+        transitionSeconds,
+        onProgress,
+        signal: req.signal,
+      })
+    );
+  } catch (error) {
+    console.error("Error rendering timeline:", error);
+    return errorResponse(error, "Failed to render timeline");
+  }
+}
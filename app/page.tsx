@@ -8,47 +8,154 @@ import React, {
   useState,
 } from "react";
 import Image from "next/image";
-import { Upload, Film, Image as ImageIcon } from "lucide-react";
+import {
+  Brush,
+  Film,
+  ListVideo,
+  SquareSplitHorizontal,
+  StretchHorizontal,
+  Upload,
+} from "lucide-react";
 import Composer from "@/components/ui/Composer";
 import VideoPlayer from "@/components/ui/VideoPlayer";
-import { Skeleton } from "@/components/ui/skeleton";
 import { ProductGallery } from "@/components/gallery/ProductGallery";
-import Header from '@/components/ui/Header';
+import { ErrorModal } from "@/components/gallery/ErrorModal";
 import { AnimatedLayout } from '@/components/ui/Animation';
 import { motion } from "framer-motion";
 import Logo from "@/components/ui/Logo";
+import KeySourceBadge from "@/components/ui/KeySourceBadge";
+import SettingsDialog from "@/components/ui/SettingsDialog";
+import VariantStrip from "@/components/ui/VariantStrip";
+import EditThread, { EditTurn } from "@/components/ui/EditThread";
+import MaskCanvas from "@/components/ui/MaskCanvas";
+import HistoryStrip from "@/components/ui/HistoryStrip";
+import CompareView from "@/components/ui/CompareView";
+import ComposeTray, { ComposeImage } from "@/components/ui/ComposeTray";
+import ClipTimeline, { TimelineClip } from "@/components/ui/ClipTimeline";
+import Storyboard from "@/components/ui/Storyboard";
+import ExtendVideoDialog from "@/components/ui/ExtendVideoDialog";
+import { classifyOperationError } from "@/lib/ai/errors";
+import type { GeneratedVideo } from "@/lib/ai/types";
+import {
+  errorFromResponse,
+  GenerationError,
+  invalidFieldsError,
+  toGenerationError,
+} from "@/lib/errors";
+import {
+  cancelJob,
+  fetchJob,
+  jobFailure,
+  submitVideoJob,
+} from "@/lib/jobs/client";
+import {
+  loadPendingGenerations,
+  PendingGeneration,
+  removePendingGeneration,
+  savePendingGeneration,
+} from "@/lib/pending-generations";
+import {
+  geminiEditSchema,
+  geminiGenerateSchema,
+  imagenGenerateSchema,
+  videoGenerateSchema,
+} from "@/lib/schemas";
+import {
+  appendSettings,
+  DEFAULT_GENERATION_SETTINGS,
+  fitSettingsToModel,
+  settingsForModel,
+} from "@/lib/generation-settings";
+import {
+  blendWithMask,
+  extendCanvas,
+  maskToBlackAndWhite,
+} from "@/lib/mask";
+import { checkModelSupport, defaultModelFor, getModel } from "@/lib/models";
+import { formatElapsed, isAbortError, triggerDownload } from "@/lib/utils";
+import { validate } from "@/lib/validation";
+import { exportVideo, videoDuration } from "@/lib/video/client";
+import { useJobEvents } from "@/hooks/useJobEvents";
+import { ImageNode, useImageHistory } from "@/hooks/useImageHistory";
+import { KeySource } from "@/types/api-key";
+import {
+  CanvasAnchor,
+  GenerationMode,
+  GenerationSettings,
+  StudioMode,
+} from "@/types/studio";
+import { ExportFormat, VideoRange } from "@/types/video";
+
+/** Loading messages rotate at this pace; video mode paces them by job time. */
+const LOADING_MESSAGE_MS = 2200;
+/** Poll interval when resuming an operation the jobs store no longer has. */
+const POLL_INTERVAL_MS = 5000;
 
-type VeoOperationName = string | null;
+/** Scene guidance sent when extending without a prompt of one's own. */
+const DEFAULT_EXTEND_PROMPT = "Continue the scene naturally.";
+
+/** Flex alignment that previews each anchor inside the extended frame. */
+const ANCHOR_CLASSES: Record<CanvasAnchor, string> = {
+  "top-left": "items-start justify-start",
+  top: "items-start justify-center",
+  "top-right": "items-start justify-end",
+  left: "items-center justify-start",
+  center: "items-center justify-center",
+  right: "items-center justify-end",
+  "bottom-left": "items-end justify-start",
+  bottom: "items-end justify-center",
+  "bottom-right": "items-end justify-end",
+};
 
-type StudioMode =
-  | "create-image"
-  | "edit-image"
-  | "compose-image"
-  | "create-video"
-  | "product-gallery";
-
-const POLL_INTERVAL_MS = 5000;
+/** Uploads a composition accepts, besides the current image. */
+const MAX_COMPOSE_UPLOADS = 10;
+/** Id of the compose entry that stands for the current image. */
+const CURRENT_IMAGE_ID = "current";
+
+/** A downloaded video candidate and the object URL it plays from. */
+interface VideoVariant {
+  blob: Blob;
+  url: string;
+}
+
+/** Data URLs of the candidate images in an image route's response. */
+function imageDataUrls(json: {
+  images?: { imageBytes?: string; mimeType?: string }[];
+}): string[] {
+  return (json?.images ?? [])
+    .filter((image) => image?.imageBytes)
+    .map((image) => `data:${image.mimeType};base64,${image.imageBytes}`);
+}
 
 const VeoStudio: React.FC = () => {
   const [mode, setMode] = useState<StudioMode>("create-image");
   const [prompt, setPrompt] = useState(""); // Video or image prompt
-  const [negativePrompt, setNegativePrompt] = useState("");
-  const [aspectRatio, setAspectRatio] = useState("16:9");
-  const [selectedModel, setSelectedModel] = useState("veo-3.0-generate-001");
+  const [settings, setSettings] = useState<GenerationSettings>(
+    DEFAULT_GENERATION_SETTINGS
+  );
+  const [selectedModel, setSelectedModel] = useState(
+    defaultModelFor("create-image").id
+  );
+  const selectedModelInfo = getModel(selectedModel);
+  // Only the settings the selected model supports are sent
+  const requestSettings = useMemo(
+    () => settingsForModel(settings, selectedModelInfo),
+    [settings, selectedModelInfo]
+  );
 
-  // Update selected model when mode changes
+  // Keep the settings within what the selected model supports
   useEffect(() => {
-    if (mode === "create-video") {
-      setSelectedModel("veo-3.0-generate-001");
-    } else if (mode === "edit-image" || mode === "compose-image") {
-      setSelectedModel("gemini-2.5-flash-image-preview");
-    } else if (mode === "create-image") {
-      if (
-        !selectedModel.includes("gemini") &&
-        !selectedModel.includes("imagen")
-      ) {
-        setSelectedModel("gemini-2.5-flash-image-preview");
-      }
+    const model = getModel(selectedModel);
+    if (model) setSettings((current) => fitSettingsToModel(current, model));
+  }, [selectedModel]);
+
+  // Switch to the mode's default model when the selected one cannot run it
+  useEffect(() => {
+    if (mode === "product-gallery") return;
+    // Storyboard shots are generated with the video models
+    const modelMode = mode === "storyboard" ? "create-video" : mode;
+    if (!getModel(selectedModel)?.modes.includes(modelMode)) {
+      setSelectedModel(defaultModelFor(modelMode).id);
     }
   }, [mode, selectedModel]);
 
@@ -56,22 +163,48 @@ const VeoStudio: React.FC = () => {
   const [imagePrompt, setImagePrompt] = useState("");
   const [editPrompt, setEditPrompt] = useState("");
   const [composePrompt, setComposePrompt] = useState("");
+  const [extendPrompt, setExtendPrompt] = useState("");
+  const [extendAspectRatio, setExtendAspectRatio] = useState("16:9");
+  const [extendAnchor, setExtendAnchor] = useState<CanvasAnchor>("center");
 
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [uploadedImageUrl, setUploadedImageUrl] = useState<string | null>(null);
-  const [multipleImageFiles, setMultipleImageFiles] = useState<File[]>([]);
+  // Compose inputs in send order; the current image joins unless removed
+  const [composeImages, setComposeImages] = useState<ComposeImage[]>([]);
+  const [composeSkipsCurrent, setComposeSkipsCurrent] = useState(false);
   const [imagenBusy, setImagenBusy] = useState(false);
   const [geminiBusy, setGeminiBusy] = useState(false);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null); // data URL
-
-  // Debug multipleImageFiles state
-  useEffect(() => {
-    console.log(
-      "multipleImageFiles state changed:",
-      multipleImageFiles.length,
-      multipleImageFiles
-    );
-  }, [multipleImageFiles]);
+  // Every candidate of the last generation; generatedImage is the one picked
+  const [imageVariants, setImageVariants] = useState<string[]>([]);
+  // Server-side conversation that follow-up edits continue
+  const [editSessionId, setEditSessionId] = useState<string | null>(null);
+  const [editTurns, setEditTurns] = useState<EditTurn[]>([]);
+  // Inpainting: while masking, edits only change the painted region
+  const [masking, setMasking] = useState(false);
+  const [maskDataUrl, setMaskDataUrl] = useState<string | null>(null);
+  // Every image generated this session, as a tree of versions
+  const history = useImageHistory();
+  const recordHistory = history.record;
+  const recordImage = useCallback(
+    (image: string, prompt: string, model: string, mode: GenerationMode) =>
+      recordHistory({ image, prompt, model, mode }),
+    [recordHistory]
+  );
+  // Before/after view of the current result against what it was made from
+  const [comparing, setComparing] = useState(false);
+  const compareSource =
+    history.current && history.current.mode !== "create-image"
+      ? history.parent?.image ?? uploadedImageUrl
+      : null;
+  const [imageKeySource, setImageKeySource] = useState<KeySource | null>(
+    null
+  );
+  const [error, setError] = useState<GenerationError | null>(null);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [timelineClips, setTimelineClips] = useState<TimelineClip[]>([]);
+  const [timelineOpen, setTimelineOpen] = useState(false);
+  const [extending, setExtending] = useState(false);
 
   useEffect(() => {
     let objectUrl: string | null = null;
@@ -89,24 +222,77 @@ const VeoStudio: React.FC = () => {
     };
   }, [imageFile]);
 
-  const [operationName, setOperationName] = useState<VeoOperationName>(null);
+  const currentImageSrc = generatedImage || uploadedImageUrl;
+  const composeItems = useMemo(() => {
+    const uploads = composeImages.filter((image) => image.file);
+    if (!currentImageSrc || composeSkipsCurrent) return uploads;
+    const hasCurrent = composeImages.some((image) => !image.file);
+    return hasCurrent
+      ? composeImages.map((image) =>
+          image.file ? image : { ...image, url: currentImageSrc }
+        )
+      : [
+          ...composeImages,
+          {
+            id: CURRENT_IMAGE_ID,
+            role: "subject" as const,
+            url: currentImageSrc,
+          },
+        ];
+  }, [composeImages, composeSkipsCurrent, currentImageSrc]);
+  const composeUploadCount = composeItems.filter((image) => image.file).length;
+
+  const addComposeFiles = (files: File[]) => {
+    const room = MAX_COMPOSE_UPLOADS - composeUploadCount;
+    if (room <= 0) return;
+    const added = files.slice(0, room).map(
+      (file): ComposeImage => ({
+        id: crypto.randomUUID(),
+        role: "subject",
+        file,
+        url: URL.createObjectURL(file),
+      })
+    );
+    setComposeImages([...composeItems, ...added]);
+  };
+
+  const updateComposeImages = (next: ComposeImage[]) => {
+    for (const image of composeItems) {
+      if (image.file && !next.some((other) => other.id === image.id)) {
+        URL.revokeObjectURL(image.url);
+      }
+    }
+    setComposeImages(next);
+    setComposeSkipsCurrent(
+      !!currentImageSrc && !next.some((image) => !image.file)
+    );
+  };
+
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [resumable, setResumable] = useState<PendingGeneration | null>(null);
+  const [resumedOperation, setResumedOperation] =
+    useState<PendingGeneration | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [videoVariants, setVideoVariants] = useState<VideoVariant[]>([]);
+  const [activeVideoIndex, setActiveVideoIndex] = useState(0);
   const videoBlobRef = useRef<Blob | null>(null);
   const trimmedBlobRef = useRef<Blob | null>(null);
 
   const trimmedUrlRef = useRef<string | null>(null);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
   const originalVideoUrlRef = useRef<string | null>(null);
 
+  // Aborts the in-flight image request or video job submission on cancel
+  const abortRef = useRef<AbortController | null>(null);
+  const nextAbortSignal = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = new AbortController();
+    return abortRef.current.signal;
+  }, []);
+
   // Friendly model label for UI
-  const modelLabel = useMemo(() => {
-    const cleaned = selectedModel
-      .replace(/_/g, " ")
-      .replace(/-/g, " ")
-      .replace(/preview/gi, "")
-      .trim();
-    return cleaned || selectedModel;
-  }, [selectedModel]);
+  const modelLabel = selectedModelInfo?.label ?? selectedModel;
 
   // Rotating loading messages containing model name
   const loadingMessages = useMemo(() => {
@@ -159,17 +345,18 @@ const VeoStudio: React.FC = () => {
     [isGenerating, imagenBusy, geminiBusy]
   );
 
-  // Advance loading message while any generation is happening
+  // Advance loading message while an image generation is happening. Video
+  // generations are paced by the job's event stream instead.
   useEffect(() => {
-    if (!isLoadingUI) {
+    if (!isLoadingUI || jobId) {
       setLoadingIndex(0);
       return;
     }
     const id = setInterval(() => {
       setLoadingIndex((i) => (i + 1) % loadingMessages.length);
-    }, 2200);
+    }, LOADING_MESSAGE_MS);
     return () => clearInterval(id);
-  }, [isLoadingUI, loadingMessages]);
+  }, [isLoadingUI, jobId, loadingMessages]);
 
   const canStart = useMemo(() => {
     if (mode === "create-video") {
@@ -181,14 +368,11 @@ const VeoStudio: React.FC = () => {
     } else if (mode === "edit-image") {
       return editPrompt.trim() && (imageFile || generatedImage) && !geminiBusy;
     } else if (mode === "compose-image") {
-      // Allow composition with existing image + new images, or just new images
-      const hasExistingImage = imageFile || generatedImage;
-      const hasNewImages = multipleImageFiles.length > 0;
-      return (
-        composePrompt.trim() &&
-        (hasExistingImage || hasNewImages) &&
-        !geminiBusy
-      );
+      // Any mix of the current image and uploads
+      return composePrompt.trim() && composeItems.length > 0 && !geminiBusy;
+    } else if (mode === "extend-image") {
+      // The prompt is optional; the canvas shape says what to do
+      return (imageFile || generatedImage) && !geminiBusy;
     }
     return false;
   }, [
@@ -199,30 +383,50 @@ const VeoStudio: React.FC = () => {
     imagePrompt,
     editPrompt,
     composePrompt,
-    multipleImageFiles,
+    composeItems,
     imagenBusy,
     geminiBusy,
   ]);
 
   const resetAll = () => {
     setPrompt("");
-    setNegativePrompt("");
-    setAspectRatio("16:9");
+    setSettings(
+      selectedModelInfo
+        ? fitSettingsToModel(DEFAULT_GENERATION_SETTINGS, selectedModelInfo)
+        : DEFAULT_GENERATION_SETTINGS
+    );
     setImagePrompt("");
     setEditPrompt("");
     setComposePrompt("");
+    setExtendPrompt("");
     setImageFile(null);
-    setMultipleImageFiles([]);
+    for (const image of composeImages) {
+      if (image.file) URL.revokeObjectURL(image.url);
+    }
+    setComposeImages([]);
+    setComposeSkipsCurrent(false);
     setGeneratedImage(null);
-    setOperationName(null);
+    setImageVariants([]);
+    setEditSessionId(null);
+    setEditTurns([]);
+    setMasking(false);
+    setMaskDataUrl(null);
+    setComparing(false);
+    history.clear();
+    if (jobId) removePendingGeneration(jobId);
+    setJobId(null);
+    setResumedOperation(null);
     setIsGenerating(false);
     setVideoUrl(null);
     setImagenBusy(false);
     setGeminiBusy(false);
-    if (videoBlobRef.current) {
-      URL.revokeObjectURL(URL.createObjectURL(videoBlobRef.current));
-      videoBlobRef.current = null;
+    for (const variant of videoVariants) {
+      URL.revokeObjectURL(variant.url);
     }
+    setVideoVariants([]);
+    setActiveVideoIndex(0);
+    videoBlobRef.current = null;
+    originalVideoUrlRef.current = null;
     if (trimmedUrlRef.current) {
       URL.revokeObjectURL(trimmedUrlRef.current);
       trimmedUrlRef.current = null;
@@ -230,164 +434,320 @@ const VeoStudio: React.FC = () => {
     trimmedBlobRef.current = null;
   };
 
+  // Shows a version from the history; edits then branch from it
+  const showHistoryNode = useCallback((node: ImageNode | null) => {
+    setGeneratedImage(node?.image ?? null);
+    setImageVariants([]);
+    setEditSessionId(null);
+    setEditTurns([]);
+    setMaskDataUrl(null);
+  }, []);
+
+  const { canUndo, canRedo, undo: undoHistory, redo: redoHistory } = history;
+  const busy = imagenBusy || geminiBusy;
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes, outside text fields
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || busy) return;
+      const target = e.target as HTMLElement | null;
+      if (
+        target?.isContentEditable ||
+        target?.tagName === "INPUT" ||
+        target?.tagName === "TEXTAREA"
+      ) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        if (canUndo) showHistoryNode(undoHistory());
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        if (canRedo) showHistoryNode(redoHistory());
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [busy, canUndo, canRedo, undoHistory, redoHistory, showHistoryNode]);
+
   // Imagen helper
   const generateWithImagen = useCallback(async () => {
     console.log("Starting Imagen generation");
+    const previousImage = generatedImage;
     setImagenBusy(true);
     setGeneratedImage(null);
+    setImageVariants([]);
+    const signal = nextAbortSignal();
     try {
       const resp = await fetch("/api/imagen/generate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ prompt: imagePrompt }),
+        body: JSON.stringify({
+          prompt: imagePrompt,
+          model: selectedModel,
+          ...requestSettings,
+        }),
+        signal,
       });
 
       if (!resp.ok) {
         console.error("Imagen API error:", resp.status, resp.statusText);
-        throw new Error(`API error: ${resp.status}`);
+        throw errorFromResponse(
+          await resp.json().catch(() => null),
+          resp.status
+        );
       }
 
       const json = await resp.json();
       console.log("Imagen API response:", json);
 
-      if (json?.image?.imageBytes) {
-        const dataUrl = `data:${json.image.mimeType};base64,${json.image.imageBytes}`;
-        setGeneratedImage(dataUrl);
+      const images = imageDataUrls(json);
+      if (images.length > 0) {
+        setImageVariants(images);
+        setGeneratedImage(images[0]);
+        setImageKeySource(json.keySource ?? null);
+        recordImage(images[0], imagePrompt, selectedModel, "create-image");
       } else if (json?.error) {
         console.error("Imagen API returned error:", json.error);
         throw new Error(json.error);
       }
     } catch (e) {
+      if (isAbortError(e)) {
+        setGeneratedImage(previousImage);
+        return;
+      }
       console.error("Error in generateWithImagen:", e);
-      alert(`Failed to generate image: ${e.message}`);
+      setError(toGenerationError(e));
     } finally {
       console.log("Resetting Imagen busy state");
       setImagenBusy(false);
     }
-  }, [imagePrompt]);
+  }, [
+    imagePrompt,
+    selectedModel,
+    requestSettings,
+    generatedImage,
+    nextAbortSignal,
+    recordImage,
+  ]);
 
   // Gemini image generation helper
   const generateWithGemini = useCallback(async () => {
     console.log("Starting Gemini image generation");
+    const previousImage = generatedImage;
     setGeminiBusy(true);
     setGeneratedImage(null);
+    setImageVariants([]);
+    const signal = nextAbortSignal();
     try {
       const resp = await fetch("/api/gemini/generate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ prompt: imagePrompt }),
+        body: JSON.stringify({
+          prompt: imagePrompt,
+          model: selectedModel,
+          ...requestSettings,
+        }),
+        signal,
       });
 
       if (!resp.ok) {
         console.error("Gemini API error:", resp.status, resp.statusText);
-        throw new Error(`API error: ${resp.status}`);
+        throw errorFromResponse(
+          await resp.json().catch(() => null),
+          resp.status
+        );
       }
 
       const json = await resp.json();
       console.log("Gemini API response:", json);
 
-      if (json?.image?.imageBytes) {
-        const dataUrl = `data:${json.image.mimeType};base64,${json.image.imageBytes}`;
-        setGeneratedImage(dataUrl);
+      const images = imageDataUrls(json);
+      if (images.length > 0) {
+        setImageVariants(images);
+        setGeneratedImage(images[0]);
+        setImageKeySource(json.keySource ?? null);
+        recordImage(images[0], imagePrompt, selectedModel, "create-image");
       } else if (json?.error) {
         console.error("Gemini API returned error:", json.error);
         throw new Error(json.error);
       }
     } catch (e) {
+      if (isAbortError(e)) {
+        setGeneratedImage(previousImage);
+        return;
+      }
       console.error("Error in generateWithGemini:", e);
       // Show user-friendly error message
-      alert(`Failed to generate image: ${e.message}`);
+      setError(toGenerationError(e));
     } finally {
       console.log("Resetting Gemini busy state");
       setGeminiBusy(false);
     }
-  }, [imagePrompt]);
+  }, [
+    imagePrompt,
+    selectedModel,
+    requestSettings,
+    generatedImage,
+    nextAbortSignal,
+    recordImage,
+  ]);
 
   // Gemini image edit helper
   const editWithGemini = useCallback(async () => {
     console.log("Starting Gemini image edit");
+    const sourceImage = generatedImage;
+    const mask = masking ? maskDataUrl : null;
+    const original = sourceImage ?? uploadedImageUrl;
     setGeminiBusy(true);
     setGeneratedImage(null);
+    setImageVariants([]);
+    const signal = nextAbortSignal();
     try {
       const form = new FormData();
       form.append("prompt", editPrompt);
+      form.append("model", selectedModel);
+      appendSettings(form, requestSettings);
+      if (editSessionId) form.append("sessionId", editSessionId);
+      if (mask) {
+        form.append(
+          "maskFile",
+          new File([await maskToBlackAndWhite(mask)], "mask.png", {
+            type: "image/png",
+          })
+        );
+      }
 
-      if (imageFile) {
-        form.append("imageFile", imageFile);
-      } else if (generatedImage) {
-        const [meta, b64] = generatedImage.split(",");
+      // The latest result comes first so follow-ups build on it
+      if (sourceImage) {
+        const [meta, b64] = sourceImage.split(",");
         const mime = meta?.split(";")?.[0]?.replace("data:", "") || "image/png";
         form.append("imageBase64", b64);
         form.append("imageMimeType", mime);
+      } else if (imageFile) {
+        form.append("imageFile", imageFile);
       }
 
       const resp = await fetch("/api/gemini/edit", {
         method: "POST",
         body: form,
+        signal,
       });
 
       if (!resp.ok) {
         console.error("Gemini edit API error:", resp.status, resp.statusText);
-        throw new Error(`API error: ${resp.status}`);
+        throw errorFromResponse(
+          await resp.json().catch(() => null),
+          resp.status
+        );
       }
 
       const json = await resp.json();
       console.log("Gemini edit API response:", json);
 
-      if (json?.image?.imageBytes) {
-        const dataUrl = `data:${json.image.mimeType};base64,${json.image.imageBytes}`;
-        setGeneratedImage(dataUrl);
+      let images = imageDataUrls(json);
+      // Paste only the masked region back so the rest stays pixel-identical
+      if (mask && original) {
+        images = await Promise.all(
+          images.map((image) => blendWithMask(original, image, mask))
+        );
+      }
+      if (images.length > 0) {
+        setImageVariants(images);
+        setGeneratedImage(images[0]);
+        setImageKeySource(json.keySource ?? null);
+        recordImage(images[0], editPrompt, selectedModel, "edit-image");
       } else if (json?.error) {
         console.error("Gemini edit API returned error:", json.error);
         throw new Error(json.error);
+      } else {
+        // A text-only reply leaves the image as it was
+        setGeneratedImage(sourceImage);
+      }
+
+      if (json?.sessionId) {
+        const turn: EditTurn = {
+          prompt: editPrompt,
+          reply: json.text,
+          image: images[0],
+        };
+        // An expired session comes back under a new id
+        setEditTurns((turns) =>
+          json.sessionId === editSessionId ? [...turns, turn] : [turn]
+        );
+        setEditSessionId(json.sessionId);
+        setEditPrompt("");
       }
     } catch (e) {
+      // Cancelling or failing leaves the image that was being edited
+      setGeneratedImage(sourceImage);
+      if (isAbortError(e)) return;
       console.error("Error in editWithGemini:", e);
-      alert(`Failed to edit image: ${e.message}`);
+      setError(toGenerationError(e));
     } finally {
       console.log("Resetting Gemini busy state after edit");
       setGeminiBusy(false);
     }
-  }, [editPrompt, imageFile, generatedImage]);
+  }, [
+    editPrompt,
+    selectedModel,
+    requestSettings,
+    editSessionId,
+    masking,
+    maskDataUrl,
+    imageFile,
+    uploadedImageUrl,
+    generatedImage,
+    nextAbortSignal,
+    recordImage,
+  ]);
 
   // Gemini image compose helper
   const composeWithGemini = useCallback(async () => {
+    const previousImage = generatedImage;
     setGeminiBusy(true);
     setGeneratedImage(null);
+    setImageVariants([]);
+    const signal = nextAbortSignal();
     try {
       const form = new FormData();
       form.append("prompt", composePrompt);
-
-      // Add newly uploaded images first
-      for (const file of multipleImageFiles) {
-        form.append("imageFiles", file);
-      }
-
-      // Include existing image last (if any)
-      if (imageFile) {
-        form.append("imageFiles", imageFile);
-      } else if (generatedImage) {
-        // Convert base64 to blob and add as file
-        const [meta, b64] = generatedImage.split(",");
-        const mime = meta?.split(";")?.[0]?.replace("data:", "") || "image/png";
-        const byteCharacters = atob(b64);
-        const byteNumbers = new Array(byteCharacters.length);
-        for (let i = 0; i < byteCharacters.length; i++) {
-          byteNumbers[i] = byteCharacters.charCodeAt(i);
+      form.append("model", selectedModel);
+      appendSettings(form, requestSettings);
+
+      // Images in the order arranged, each with the role it plays
+      for (const image of composeItems) {
+        if (image.file) {
+          form.append("imageFiles", image.file);
+        } else if (imageFile) {
+          form.append("imageFiles", imageFile);
+        } else if (generatedImage) {
+          // Convert base64 to blob and add as file
+          const [meta, b64] = generatedImage.split(",");
+          const mime =
+            meta?.split(";")?.[0]?.replace("data:", "") || "image/png";
+          const byteCharacters = atob(b64);
+          const byteNumbers = new Array(byteCharacters.length);
+          for (let i = 0; i < byteCharacters.length; i++) {
+            byteNumbers[i] = byteCharacters.charCodeAt(i);
+          }
+          const byteArray = new Uint8Array(byteNumbers);
+          const blob = new Blob([byteArray], { type: mime });
+
+          // Create a File object from the blob
+          const existingImageFile = new File([blob], "existing-image.png", {
+            type: mime,
+          });
+          form.append("imageFiles", existingImageFile);
         }
-        const byteArray = new Uint8Array(byteNumbers);
-        const blob = new Blob([byteArray], { type: mime });
-
-        // Create a File object from the blob
-        const existingImageFile = new File([blob], "existing-image.png", {
-          type: mime,
-        });
-        form.append("imageFiles", existingImageFile);
+        form.append("imageRoles", image.role);
       }
 
       const resp = await fetch("/api/gemini/edit", {
         method: "POST",
         body: form,
+        signal,
       });
 
       if (!resp.ok) {
@@ -396,31 +756,298 @@ const VeoStudio: React.FC = () => {
           resp.status,
           resp.statusText
         );
-        throw new Error(`API error: ${resp.status}`);
+        throw errorFromResponse(
+          await resp.json().catch(() => null),
+          resp.status
+        );
       }
 
       const json = await resp.json();
       console.log("Gemini compose API response:", json);
 
-      if (json?.image?.imageBytes) {
-        const dataUrl = `data:${json.image.mimeType};base64,${json.image.imageBytes}`;
-        setGeneratedImage(dataUrl);
+      const images = imageDataUrls(json);
+      if (images.length > 0) {
+        setImageVariants(images);
+        setGeneratedImage(images[0]);
+        setImageKeySource(json.keySource ?? null);
+        recordImage(images[0], composePrompt, selectedModel, "compose-image");
       } else if (json?.error) {
         console.error("Gemini compose API returned error:", json.error);
         throw new Error(json.error);
       }
     } catch (e) {
+      if (isAbortError(e)) {
+        setGeneratedImage(previousImage);
+        return;
+      }
       console.error("Error in composeWithGemini:", e);
-      alert(`Failed to compose images: ${e.message}`);
+      setError(toGenerationError(e));
     } finally {
       console.log("Resetting Gemini busy state after compose");
       setGeminiBusy(false);
     }
-  }, [composePrompt, multipleImageFiles, imageFile, generatedImage]);
+  }, [
+    composePrompt,
+    selectedModel,
+    requestSettings,
+    composeItems,
+    imageFile,
+    generatedImage,
+    nextAbortSignal,
+    recordImage,
+  ]);
+
+  // Gemini outpainting helper: fills a larger canvas around the image
+  const extendWithGemini = useCallback(async () => {
+    const source = generatedImage ?? uploadedImageUrl;
+    if (!source) return;
+    setGeminiBusy(true);
+    setGeneratedImage(null);
+    setImageVariants([]);
+    const signal = nextAbortSignal();
+    try {
+      const canvas = await extendCanvas(source, extendAspectRatio, extendAnchor);
+      const form = new FormData();
+      form.append("prompt", extendPrompt.trim() || DEFAULT_EXTEND_PROMPT);
+      form.append("model", selectedModel);
+      appendSettings(form, requestSettings);
+      form.append("imageBase64", canvas.image);
+      form.append("imageMimeType", "image/png");
+      form.append(
+        "maskFile",
+        new File([await maskToBlackAndWhite(canvas.mask)], "mask.png", {
+          type: "image/png",
+        })
+      );
+      form.append("maskMode", "outpaint");
+
+      const resp = await fetch("/api/gemini/edit", {
+        method: "POST",
+        body: form,
+        signal,
+      });
+
+      if (!resp.ok) {
+        console.error("Gemini extend API error:", resp.status, resp.statusText);
+        throw errorFromResponse(
+          await resp.json().catch(() => null),
+          resp.status
+        );
+      }
+
+      const json = await resp.json();
+      // Keep the original pixels exactly; only the new area comes from Gemini
+      const images = await Promise.all(
+        imageDataUrls(json).map((image) =>
+          blendWithMask(canvas.image, image, canvas.mask)
+        )
+      );
+      if (images.length === 0) {
+        throw new GenerationError("NO_OUTPUT", "No image generated", json?.text);
+      }
+      setImageVariants(images);
+      setGeneratedImage(images[0]);
+      setImageKeySource(json.keySource ?? null);
+      recordImage(
+        images[0],
+        extendPrompt.trim() || DEFAULT_EXTEND_PROMPT,
+        selectedModel,
+        "extend-image"
+      );
+    } catch (e) {
+      // Cancelling or failing leaves the image that was being extended
+      setGeneratedImage(generatedImage);
+      if (isAbortError(e)) return;
+      console.error("Error in extendWithGemini:", e);
+      setError(toGenerationError(e));
+    } finally {
+      setGeminiBusy(false);
+    }
+  }, [
+    generatedImage,
+    uploadedImageUrl,
+    extendAspectRatio,
+    extendAnchor,
+    extendPrompt,
+    selectedModel,
+    requestSettings,
+    nextAbortSignal,
+    recordImage,
+  ]);
+
+  // Writes the create prompt from a reference image, for the selected model
+  const [describing, setDescribing] = useState(false);
+  const describeImage = useCallback(
+    async (file: File) => {
+      setDescribing(true);
+      try {
+        const form = new FormData();
+        form.append("imageFile", file);
+        form.append("model", selectedModel);
+        const resp = await fetch("/api/gemini/describe", {
+          method: "POST",
+          body: form,
+        });
+        if (!resp.ok) {
+          throw errorFromResponse(
+            await resp.json().catch(() => null),
+            resp.status
+          );
+        }
+        const json = await resp.json();
+        if (mode === "create-video") {
+          setPrompt(json.prompt);
+        } else {
+          setImagePrompt(json.prompt);
+        }
+      } catch (e) {
+        console.error("Error in describeImage:", e);
+        setError(toGenerationError(e));
+      } finally {
+        setDescribing(false);
+      }
+    },
+    [mode, selectedModel]
+  );
+
+  // The prompt field of each mode
+  const promptFields: Record<
+    GenerationMode,
+    { value: string; set: (value: string) => void }
+  > = {
+    "create-image": { value: imagePrompt, set: setImagePrompt },
+    "edit-image": { value: editPrompt, set: setEditPrompt },
+    "compose-image": { value: composePrompt, set: setComposePrompt },
+    "extend-image": { value: extendPrompt, set: setExtendPrompt },
+    "create-video": { value: prompt, set: setPrompt },
+  };
+
+  // Magic wand: a fuller rewrite of the prompt, shown as a diff to review
+  const [enhancing, setEnhancing] = useState(false);
+  const [promptSuggestion, setPromptSuggestion] = useState<{
+    mode: GenerationMode;
+    original: string;
+    suggestion: string;
+  } | null>(null);
+  const enhancePrompt = async () => {
+    if (mode === "storyboard" || mode === "product-gallery") return;
+    const original = promptFields[mode].value;
+    setEnhancing(true);
+    try {
+      const resp = await fetch("/api/gemini/enhance", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ prompt: original, model: selectedModel, mode }),
+      });
+      if (!resp.ok) {
+        throw errorFromResponse(
+          await resp.json().catch(() => null),
+          resp.status
+        );
+      }
+      const json = await resp.json();
+      setPromptSuggestion({ mode, original, suggestion: json.prompt });
+    } catch (e) {
+      console.error("Error in enhancePrompt:", e);
+      setError(toGenerationError(e));
+    } finally {
+      setEnhancing(false);
+    }
+  };
+
+  // Check the request against the route's schema before sending it
+  const requestIssues = useCallback(() => {
+    const currentImageTypes = imageFile
+      ? [imageFile.type]
+      : generatedImage
+      ? [generatedImage.split(";")[0].replace("data:", "")]
+      : [];
+    switch (mode) {
+      case "create-video":
+        return [
+          ...validate(videoGenerateSchema, {
+            prompt,
+            model: selectedModel,
+            ...requestSettings,
+            images: currentImageTypes,
+          }),
+          ...checkModelSupport(selectedModel, {
+            ...requestSettings,
+            imageCount: currentImageTypes.length,
+          }),
+        ];
+      case "create-image":
+        return [
+          ...validate(
+            getModel(selectedModel)?.provider === "imagen"
+              ? imagenGenerateSchema
+              : geminiGenerateSchema,
+            { prompt: imagePrompt, model: selectedModel, ...requestSettings }
+          ),
+          ...checkModelSupport(selectedModel, requestSettings),
+        ];
+      case "edit-image":
+        return [
+          ...validate(geminiEditSchema, {
+            prompt: editPrompt,
+            model: selectedModel,
+            images: currentImageTypes,
+            ...requestSettings,
+          }),
+          ...checkModelSupport(selectedModel, requestSettings),
+        ];
+      case "compose-image": {
+        const images = composeItems.map((image) =>
+          image.file ? image.file.type : currentImageTypes[0]
+        );
+        return [
+          ...validate(geminiEditSchema, {
+            prompt: composePrompt,
+            model: selectedModel,
+            images,
+            ...requestSettings,
+          }),
+          ...checkModelSupport(selectedModel, {
+            ...requestSettings,
+            imageCount: images.length,
+          }),
+        ];
+      }
+      case "extend-image":
+        return [
+          ...validate(geminiEditSchema, {
+            prompt: extendPrompt.trim() || DEFAULT_EXTEND_PROMPT,
+            model: selectedModel,
+            images: currentImageTypes,
+            ...requestSettings,
+          }),
+          ...checkModelSupport(selectedModel, requestSettings),
+        ];
+      default:
+        return [];
+    }
+  }, [
+    mode,
+    prompt,
+    selectedModel,
+    requestSettings,
+    imagePrompt,
+    editPrompt,
+    composePrompt,
+    extendPrompt,
+    composeItems,
+    imageFile,
+    generatedImage,
+  ]);
 
   // Start generation based on current mode
   const startGeneration = useCallback(async () => {
     if (!canStart) return;
+    const issues = requestIssues();
+    if (issues.length > 0) {
+      setError(invalidFieldsError(issues));
+      return;
+    }
 
     if (mode === "create-video") {
       setIsGenerating(true);
@@ -429,8 +1056,7 @@ const VeoStudio: React.FC = () => {
       const form = new FormData();
       form.append("prompt", prompt);
       form.append("model", selectedModel);
-      if (negativePrompt) form.append("negativePrompt", negativePrompt);
-      if (aspectRatio) form.append("aspectRatio", aspectRatio);
+      appendSettings(form, requestSettings);
 
       if (imageFile || generatedImage) {
         if (imageFile) {
@@ -445,19 +1071,24 @@ const VeoStudio: React.FC = () => {
       }
 
       try {
-        const resp = await fetch("/api/veo/generate", {
-          method: "POST",
-          body: form,
+        const job = await submitVideoJob(form, nextAbortSignal());
+        savePendingGeneration({
+          jobId: job.id,
+          operationName: job.operationName,
+          prompt,
+          model: selectedModel,
+          startedAt: job.createdAt,
         });
-        const json = await resp.json();
-        setOperationName(json?.name || null);
+        setJobId(job.id);
       } catch (e) {
+        if (isAbortError(e)) return;
         console.error(e);
+        setError(toGenerationError(e));
         setIsGenerating(false);
       }
     } else if (mode === "create-image") {
-      // Use selected model (Imagen or Gemini)
-      if (selectedModel.includes("imagen")) {
+      // Each provider has its own route
+      if (selectedModelInfo?.provider === "imagen") {
         await generateWithImagen();
       } else {
         await generateWithGemini();
@@ -466,71 +1097,240 @@ const VeoStudio: React.FC = () => {
       await editWithGemini();
     } else if (mode === "compose-image") {
       await composeWithGemini();
+    } else if (mode === "extend-image") {
+      await extendWithGemini();
     }
   }, [
     canStart,
+    requestIssues,
     mode,
     prompt,
     selectedModel,
-    negativePrompt,
-    aspectRatio,
+    requestSettings,
     imageFile,
     generatedImage,
     generateWithImagen,
     generateWithGemini,
     editWithGemini,
     composeWithGemini,
+    extendWithGemini,
+    nextAbortSignal,
+    selectedModelInfo,
   ]);
 
-  // Poll operation until done then download
+  // Plays a candidate from the start, dropping any trim of the previous one
+  const showVideoVariant = useCallback((variant: VideoVariant) => {
+    if (trimmedUrlRef.current) {
+      URL.revokeObjectURL(trimmedUrlRef.current);
+      trimmedUrlRef.current = null;
+    }
+    trimmedBlobRef.current = null;
+    videoBlobRef.current = variant.blob;
+    originalVideoUrlRef.current = variant.url;
+    setVideoUrl(variant.url);
+  }, []);
+
+  // Downloads every candidate video and shows the first
+  const loadVideos = useCallback(
+    async (requests: { url: string; init?: RequestInit }[]) => {
+      const variants = await Promise.all(
+        requests.map(async ({ url, init }) => {
+          const dl = await fetch(url, init);
+          if (!dl.ok) {
+            throw errorFromResponse(
+              await dl.json().catch(() => null),
+              dl.status
+            );
+          }
+          const blob = await dl.blob();
+          return { blob, url: URL.createObjectURL(blob) };
+        })
+      );
+      if (variants.length === 0) return;
+      setVideoVariants(variants);
+      setActiveVideoIndex(0);
+      showVideoVariant(variants[0]);
+    },
+    [showVideoVariant]
+  );
+
+  // Fetch the stored videos once the job's event stream reports it settled
+  const jobEvents = useJobEvents(jobId);
+  const jobStatus = jobEvents.job?.status;
+  const jobFailed = jobStatus === "failed" ? jobEvents.job : null;
+  const jobVideoUrls = jobEvents.videoUrls;
+
+  useEffect(() => {
+    if (!jobId || !jobStatus || videoUrl) return;
+    if (jobStatus === "failed" || jobStatus === "cancelled") {
+      if (jobFailed) {
+        console.error("Video job failed:", jobFailed.error);
+        setError(jobFailure(jobFailed));
+      }
+      removePendingGeneration(jobId);
+      setIsGenerating(false);
+      return;
+    }
+    if (jobStatus !== "succeeded") return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        await loadVideos(jobVideoUrls.map((url) => ({ url })));
+        removePendingGeneration(jobId);
+      } catch (e) {
+        console.error(e);
+        setError(toGenerationError(e));
+      } finally {
+        if (!cancelled) setIsGenerating(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId, jobStatus, jobFailed, jobVideoUrls, videoUrl, loadVideos]);
+
+  // Offer to pick up a generation left unfinished by a previous page load
+  useEffect(() => {
+    setResumable(loadPendingGenerations().at(-1) ?? null);
+  }, []);
+
+  const discardResumable = () => {
+    if (resumable) removePendingGeneration(resumable.jobId);
+    setResumable(null);
+  };
+
+  const resumeGeneration = async (pending: PendingGeneration) => {
+    setResumable(null);
+    setMode("create-video");
+    setPrompt(pending.prompt);
+    setSelectedModel(pending.model);
+    setVideoUrl(null);
+    setIsGenerating(true);
+    try {
+      const job = await fetchJob(pending.jobId);
+      if (job) {
+        setJobId(job.id);
+      } else if (pending.operationName) {
+        // The jobs store lost it; fall back to the upstream operation itself.
+        setResumedOperation(pending);
+      } else {
+        throw new Error("This generation can no longer be found");
+      }
+    } catch (e) {
+      console.error("Error resuming generation:", e);
+      setError(toGenerationError(e));
+      removePendingGeneration(pending.jobId);
+      setIsGenerating(false);
+    }
+  };
+
+  // Poll a resumed upstream operation until done then download
   useEffect(() => {
     let timer: ReturnType<typeof setTimeout> | undefined;
     async function poll() {
-      if (!operationName || videoUrl) return;
+      if (!resumedOperation?.operationName || videoUrl) return;
       try {
         const resp = await fetch("/api/veo/operation", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ name: operationName }),
+          body: JSON.stringify({ name: resumedOperation.operationName }),
         });
-        const fresh = await resp.json();
+        const fresh = await resp.json().catch(() => null);
+        if (!resp.ok) {
+          // An expired operation or a bad key will not fix itself
+          setError(errorFromResponse(fresh, resp.status));
+          removePendingGeneration(resumedOperation.jobId);
+          setResumedOperation(null);
+          setIsGenerating(false);
+          return;
+        }
         if (fresh?.done) {
-          const fileUri = fresh?.response?.generatedVideos?.[0]?.video?.uri;
-          if (fileUri) {
-            const dl = await fetch("/api/veo/download", {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({ uri: fileUri }),
-            });
-            const blob = await dl.blob();
-            videoBlobRef.current = blob;
-            const url = URL.createObjectURL(blob);
-            setVideoUrl(url);
-            originalVideoUrlRef.current = url;
+          if (fresh.error) {
+            setError(classifyOperationError(fresh.error));
           }
+          const generated: GeneratedVideo[] =
+            fresh?.response?.generatedVideos ?? [];
+          const fileUris = generated.flatMap(({ video }) =>
+            video?.uri ? [video.uri] : []
+          );
+          await loadVideos(
+            fileUris.map((uri) => ({
+              url: "/api/veo/download",
+              init: {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ uri }),
+              },
+            }))
+          );
+          removePendingGeneration(resumedOperation.jobId);
+          setResumedOperation(null);
           setIsGenerating(false);
           return;
         }
       } catch (e) {
         console.error(e);
-        setIsGenerating(false);
-      } finally {
-        timer = setTimeout(poll, POLL_INTERVAL_MS);
       }
+      timer = setTimeout(poll, POLL_INTERVAL_MS);
     }
-    if (operationName && !videoUrl) {
+    if (resumedOperation && !videoUrl) {
       timer = setTimeout(poll, POLL_INTERVAL_MS);
     }
     return () => {
       if (timer) clearTimeout(timer);
     };
-  }, [operationName, videoUrl]);
+  }, [resumedOperation, videoUrl, loadVideos]);
+
+  useEffect(() => {
+    if (jobEvents.error) {
+      console.error(jobEvents.error);
+      setError(new GenerationError("UNKNOWN", jobEvents.error));
+      setIsGenerating(false);
+    }
+  }, [jobEvents.error]);
+
+  const cancelGeneration = async () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setImagenBusy(false);
+    setGeminiBusy(false);
+    setIsGenerating(false);
+    if (resumedOperation) {
+      removePendingGeneration(resumedOperation.jobId);
+      setResumedOperation(null);
+    }
+    if (!jobId) return;
+    removePendingGeneration(jobId);
+    setJobId(null);
+    try {
+      await cancelJob(jobId);
+    } catch (e) {
+      console.error("Error cancelling job:", e);
+    }
+  };
+
+  const jobProgressPercent =
+    typeof jobEvents.job?.metadata?.progressPercent === "number"
+      ? jobEvents.job.metadata.progressPercent
+      : null;
+  const currentLoadingMessage = jobId
+    ? loadingMessages[
+        Math.floor(jobEvents.elapsedMs / LOADING_MESSAGE_MS) %
+          loadingMessages.length
+      ]
+    : loadingMessages[loadingIndex % loadingMessages.length];
 
   const onPickImage = (e: React.ChangeEvent<HTMLInputElement>) => {
     const f = e.target.files?.[0];
     if (f) {
       setImageFile(f);
       setGeneratedImage(null);
+      // A new picture starts a new conversation and a new history
+      setEditSessionId(null);
+      setEditTurns([]);
+      setComposeSkipsCurrent(false);
+      history.clear();
     }
   };
 
@@ -538,15 +1338,14 @@ const VeoStudio: React.FC = () => {
     if (e.target.files) {
       const files = Array.from(e.target.files);
       const imageFiles = files.filter((file) => file.type.startsWith("image/"));
-      const limitedFiles = imageFiles.slice(0, 10);
-      setMultipleImageFiles((prevFiles) =>
-        [...prevFiles, ...limitedFiles].slice(0, 10)
-      );
+      addComposeFiles(imageFiles);
+      // Picking the same files again should add them again
+      e.target.value = "";
     }
   };
 
   const handleTrimmedOutput = (blob: Blob) => {
-    trimmedBlobRef.current = blob; // likely webm
+    trimmedBlobRef.current = blob;
     if (trimmedUrlRef.current) {
       URL.revokeObjectURL(trimmedUrlRef.current);
     }
@@ -565,24 +1364,97 @@ const VeoStudio: React.FC = () => {
     }
   };
 
+  // Cuts are exported from whatever is showing, so they can be refined
+  const cutVideo = async (segments: VideoRange[], format: ExportFormat) => {
+    const source = trimmedBlobRef.current ?? videoBlobRef.current;
+    if (!source) return;
+    setExportProgress(0);
+    try {
+      const blob = await exportVideo(source, segments, {
+        format,
+        onProgress: setExportProgress,
+      });
+      handleTrimmedOutput(blob);
+    } catch (e) {
+      console.error("Error exporting video:", e);
+      setError(toGenerationError(e));
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
   const downloadVideo = async () => {
     const blob = trimmedBlobRef.current || videoBlobRef.current;
     if (!blob) return;
     const isTrimmed = !!trimmedBlobRef.current;
-    const filename = isTrimmed ? "veo3_video_trimmed.webm" : "veo3_video.mp4";
+    const extension = blob.type.includes("webm") ? "webm" : "mp4";
+    const filename = `veo3_video${isTrimmed ? "_trimmed" : ""}.${extension}`;
     const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.style.display = "none";
-    link.href = url;
-    link.setAttribute("download", filename);
-    link.setAttribute("rel", "noopener");
-    link.target = "_self";
-    document.body.appendChild(link);
-    link.click();
-    setTimeout(() => {
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-    }, 0);
+    triggerDownload(url, filename);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const addToTimeline = async (source: Blob | string, title: string) => {
+    const url =
+      typeof source === "string" ? source : URL.createObjectURL(source);
+    try {
+      const duration = await videoDuration(url);
+      setTimelineClips((clips) => [
+        ...clips,
+        {
+          id: crypto.randomUUID(),
+          title,
+          source,
+          url,
+          duration,
+          trim: { start: 0, end: duration },
+          transition: "cut",
+          audio: "clip",
+          volume: 1,
+        },
+      ]);
+    } catch (e) {
+      if (typeof source !== "string") URL.revokeObjectURL(url);
+      console.error("Error adding to timeline:", e);
+      setError(toGenerationError(e));
+    }
+  };
+
+  // The longer video joins the candidates, so the original stays a click away
+  const showExtendedVideo = (blob: Blob) => {
+    const variant = { blob, url: URL.createObjectURL(blob) };
+    setVideoVariants((current) => [...current, variant]);
+    setActiveVideoIndex(videoVariants.length);
+    showVideoVariant(variant);
+    setExtending(false);
+  };
+
+  const addVideoToTimeline = () => {
+    const blob = trimmedBlobRef.current ?? videoBlobRef.current;
+    if (!blob) return;
+    const cut = blob === trimmedBlobRef.current;
+    addToTimeline(blob, cut ? "Studio video (cut)" : "Studio video");
+  };
+
+  const updateTimeline = (next: TimelineClip[]) => {
+    for (const clip of timelineClips) {
+      const removed = !next.some((other) => other.id === clip.id);
+      if (removed && typeof clip.source !== "string") {
+        URL.revokeObjectURL(clip.url);
+      }
+    }
+    setTimelineClips(next);
+  };
+
+  const downloadAllVideos = () => {
+    videoVariants.forEach((variant, index) =>
+      triggerDownload(variant.url, `veo3_video_${index + 1}.mp4`)
+    );
+  };
+
+  const selectVideoVariant = (index: number) => {
+    setActiveVideoIndex(index);
+    showVideoVariant(videoVariants[index]);
   };
 
   const downloadImage = async () => {
@@ -601,23 +1473,22 @@ const VeoStudio: React.FC = () => {
 
       // Create download link
       const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.style.display = "none";
-      link.href = url;
-      link.setAttribute("download", filename);
-      link.setAttribute("rel", "noopener");
-      link.target = "_self";
-      document.body.appendChild(link);
-      link.click();
-      setTimeout(() => {
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-      }, 0);
+      triggerDownload(url, filename);
+      setTimeout(() => URL.revokeObjectURL(url), 0);
     } catch (error) {
       console.error("Error downloading image:", error);
     }
   };
 
+  const downloadAllImages = () => {
+    const safeModelName = selectedModel.replace(/[^a-zA-Z0-9-]/g, "_");
+    imageVariants.forEach((dataUrl, index) => {
+      const mimeType = dataUrl.split(";")[0].replace("data:", "");
+      const extension = mimeType.split("/")[1] || "png";
+      triggerDownload(dataUrl, `${safeModelName}_${index + 1}.${extension}`);
+    });
+  };
+
   // Drag and drop handlers for compose mode
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -640,18 +1511,106 @@ const VeoStudio: React.FC = () => {
 
     if (limitedFiles.length > 0) {
       if (mode === "compose-image") {
-        setMultipleImageFiles((prevFiles) =>
-          [...prevFiles, ...limitedFiles].slice(0, 10)
-        );
-      } else if (mode === "edit-image") {
+        addComposeFiles(limitedFiles);
+      } else if (mode === "edit-image" || mode === "extend-image") {
         setImageFile(limitedFiles[0]);
       }
     }
   };
 
+  const compareToggle = compareSource && generatedImage && (
+    <button
+      onClick={() => {
+        setComparing(!comparing);
+        setMasking(false);
+        setMaskDataUrl(null);
+      }}
+      aria-pressed={comparing}
+      className={`inline-flex items-center gap-2 text-sm py-2 px-3 rounded-lg border transition-colors ${
+        comparing
+          ? "bg-purple-600/50 border-purple-500/60 text-white"
+          : "bg-gray-800/80 border-gray-700 text-gray-200 hover:bg-gray-700/90"
+      }`}
+      title="Compare the result with the image it was made from"
+    >
+      <SquareSplitHorizontal className="w-4 h-4" />
+      {comparing ? "Hide comparison" : "Compare"}
+    </button>
+  );
+
+  // Shared by the studio and the gallery, which both add clips to it
+  const timeline = (
+    <>
+      {timelineClips.length > 0 && !timelineOpen && (
+        <button
+          onClick={() => setTimelineOpen(true)}
+          className="fixed top-6 right-6 z-40 inline-flex items-center gap-2 py-2 px-4 rounded-full bg-purple-600 hover:bg-purple-700 text-white text-sm font-semibold shadow-lg transition-colors"
+        >
+          <Film className="w-4 h-4" />
+          Timeline ({timelineClips.length})
+        </button>
+      )}
+      {timelineOpen && (
+        <ClipTimeline
+          clips={timelineClips}
+          onChange={updateTimeline}
+          onClose={() => setTimelineOpen(false)}
+          onError={(e) => setError(toGenerationError(e))}
+        />
+      )}
+    </>
+  );
+
+  // The full-page modes leave out the studio layout but keep its dialogs
+  const pageDialogs = (
+    <>
+      {timeline}
+      {error && (
+        <ErrorModal
+          error={error}
+          onClose={() => setError(null)}
+          onSelectKey={() => {
+            setError(null);
+            setSettingsOpen(true);
+          }}
+        />
+      )}
+      {settingsOpen && (
+        <SettingsDialog onClose={() => setSettingsOpen(false)} />
+      )}
+    </>
+  );
+
+  if (mode === "storyboard") {
+    return (
+      <>
+        <Storyboard
+          onBack={() => setMode("create-video")}
+          selectedModel={selectedModel}
+          setSelectedModel={setSelectedModel}
+          settings={requestSettings}
+          onError={(e) => setError(toGenerationError(e))}
+          onAddToTimeline={addToTimeline}
+        />
+        {pageDialogs}
+      </>
+    );
+  }
+
   // If in product gallery mode, render the gallery component
   if (mode === "product-gallery") {
-    return <ProductGallery onBack={() => setMode('create-image')} />;
+    return (
+      <>
+        <ProductGallery
+          onBack={() => setMode('create-image')}
+          onOpenSettings={() => setSettingsOpen(true)}
+          onAddToTimeline={(video) =>
+            addToTimeline(video.videoUrl, video.title)
+          }
+        />
+        {pageDialogs}
+      </>
+    );
   }
 
   return (
@@ -664,6 +1623,33 @@ const VeoStudio: React.FC = () => {
       >
         {/* Main content area */}
         <div className="flex flex-col items-center justify-center min-h-[calc(100vh-80px)] pb-40 px-4">
+          {resumable && !isLoadingUI && !videoUrl && (
+            <div className="w-full max-w-3xl mb-6 flex items-center justify-between gap-4 bg-gray-800/50 p-4 rounded-2xl border border-purple-500/40">
+              <div className="min-w-0 text-left">
+                <div className="font-medium text-gray-100">
+                  Unfinished video generation
+                </div>
+                <div className="text-sm text-gray-400 truncate">
+                  &ldquo;{resumable.prompt}&rdquo; · {resumable.model} · started{" "}
+                  {new Date(resumable.startedAt).toLocaleTimeString()}
+                </div>
+              </div>
+              <div className="flex flex-shrink-0 gap-2">
+                <button
+                  onClick={() => resumeGeneration(resumable)}
+                  className="px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white text-sm font-semibold transition-colors"
+                >
+                  Resume
+                </button>
+                <button
+                  onClick={discardResumable}
+                  className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-semibold transition-colors"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          )}
           {!videoUrl &&
             (isLoadingUI ? (
               <div className="w-full max-w-3xl">
@@ -677,17 +1663,30 @@ const VeoStudio: React.FC = () => {
                   <div className="inline-flex items-center rounded-full bg-gray-700/80 px-4 py-2 text-sm font-medium text-gray-200">
                     {modelLabel}
                   </div>
-                  <p className="text-gray-400">
-                    {loadingMessages[loadingIndex % loadingMessages.length]}
-                  </p>
+                  <p className="text-gray-400">{currentLoadingMessage}</p>
                   <div className="mt-2 h-2 w-56 overflow-hidden rounded-full bg-gray-800 border border-gray-700">
-                    <motion.div 
-                      className="h-full rounded-full bg-gradient-to-r from-purple-500 to-yellow-400"
-                      initial={{ x: "-100%" }}
-                      animate={{ x: "0%" }}
-                      transition={{ duration: 1.6, repeat: Infinity, ease: "linear" }}
-                    />
+                    {jobProgressPercent !== null ? (
+                      <motion.div
+                        className="h-full rounded-full bg-gradient-to-r from-purple-500 to-yellow-400"
+                        animate={{ width: `${jobProgressPercent}%` }}
+                        transition={{ duration: 0.5 }}
+                      />
+                    ) : (
+                      <motion.div 
+                        className="h-full rounded-full bg-gradient-to-r from-purple-500 to-yellow-400"
+                        initial={{ x: "-100%" }}
+                        animate={{ x: "0%" }}
+                        transition={{ duration: 1.6, repeat: Infinity, ease: "linear" }}
+                      />
+                    )}
                   </div>
+                  {jobEvents.job && (
+                    <p className="text-xs text-gray-500">
+                      {formatElapsed(jobEvents.elapsedMs)} elapsed
+                      {jobProgressPercent !== null &&
+                        ` · ${Math.round(jobProgressPercent)}%`}
+                    </p>
+                  )}
                 </motion.div>
               </div>
             ) : (
@@ -702,7 +1701,7 @@ const VeoStudio: React.FC = () => {
                   <h2 className="text-2xl font-bold text-gray-100 mb-2">Welcome to Alchemy Studio</h2>
                   <p className="text-gray-400 mb-6">What would you like to create today?</p>
                   
-                  {((mode === "edit-image" || mode === "create-video") && !imageFile && !generatedImage) && (
+                  {((mode === "edit-image" || mode === "extend-image" || mode === "create-video") && !imageFile && !generatedImage) && (
                     <div
                       className={`rounded-lg border-2 border-dashed p-8 cursor-pointer transition-colors ${"bg-white/10 border-gray-300/70 hover:bg-white/30"}`}
                       onClick={() => {
@@ -726,6 +1725,7 @@ const VeoStudio: React.FC = () => {
                 {!(
                   mode === "edit-image" ||
                   mode === "compose-image" ||
+                  mode === "extend-image" ||
                   mode === "create-video"
                 ) && (
                   <div className="text-gray-500 select-none text-center w-full mt-8">
@@ -786,12 +1786,11 @@ const VeoStudio: React.FC = () => {
                             <div className="text-sm opacity-80 mt-1">
                               PNG, JPG, WEBP up to 10MB each (max 10 images)
                             </div>
-                            {multipleImageFiles.length > 0 && (
+                            {composeUploadCount > 0 && (
                               <div className="text-sm mt-2 text-green-600">
-                                ✓ {multipleImageFiles.length} image
-                                {multipleImageFiles.length > 1 ? "s" : ""}{" "}
-                                selected{" "}
-                                {multipleImageFiles.length >= 10
+                                ✓ {composeUploadCount} image
+                                {composeUploadCount > 1 ? "s" : ""} selected{" "}
+                                {composeUploadCount >= MAX_COMPOSE_UPLOADS
                                   ? "(max reached)"
                                   : ""}
                               </div>
@@ -801,25 +1800,12 @@ const VeoStudio: React.FC = () => {
                       </div>
 
                       {/* Thumbnails below dropzone */}
-                      {multipleImageFiles.length > 0 && (
+                      {composeItems.length > 0 && (
                         <div className="mt-6">
-                          <div className="flex flex-wrap gap-4 justify-center">
-                            {multipleImageFiles.map((file, index) => (
-                              <div
-                                key={index}
-                                className="w-28 h-28 rounded-lg overflow-hidden border-2 border-white/30 shadow-md"
-                                title={file.name}
-                              >
-                                <Image
-                                  src={URL.createObjectURL(file)}
-                                  alt={`Preview ${index + 1}`}
-                                  className="w-full h-full object-cover"
-                                  width={112}
-                                  height={112}
-                                />
-                              </div>
-                            ))}
-                          </div>
+                          <ComposeTray
+                            images={composeItems}
+                            onChange={updateComposeImages}
+                          />
                         </div>
                       )}
                     </div>
@@ -836,14 +1822,27 @@ const VeoStudio: React.FC = () => {
                   /* Compose mode: Image on top, upload area below */
                   <div className="flex flex-col gap-6 items-center">
                     <div className="w-full max-w-2xl relative">
-                      <div className="aspect-video overflow-hidden rounded-lg border">
-                        <Image
-                          src={generatedImage || uploadedImageUrl || ""}
-                          alt="Generated"
-                          className="w-full h-full object-contain"
-                          width={800}
-                          height={450}
+                      {comparing && compareSource && generatedImage ? (
+                        <CompareView
+                          before={compareSource}
+                          after={generatedImage}
                         />
+                      ) : (
+                        <div className="aspect-video overflow-hidden rounded-lg border">
+                          <Image
+                            src={generatedImage || uploadedImageUrl || ""}
+                            alt="Generated"
+                            className="w-full h-full object-contain"
+                            width={800}
+                            height={450}
+                          />
+                        </div>
+                      )}
+                      <div className="mt-2 flex items-center justify-center gap-3">
+                        {compareToggle}
+                        {generatedImage && imageKeySource && (
+                          <KeySourceBadge source={imageKeySource} />
+                        )}
                       </div>
                     </div>
 
@@ -853,7 +1852,7 @@ const VeoStudio: React.FC = () => {
                       </h4>
                       {/* Status indicator */}
                       <div className="text-xs text-center -mt-2 mb-2">
-                        {(imageFile || generatedImage) && (
+                        {composeItems.some((image) => !image.file) && (
                           <div className="text-blue-600">
                             ✓ Existing image will be included
                           </div>
@@ -881,57 +1880,162 @@ const VeoStudio: React.FC = () => {
                         </div>
                       </div>
 
-                      {/* Show thumbnails of additional images */}
-                      {multipleImageFiles.length > 0 && (
-                        <div className="mt-4">
-                          <div className="flex flex-wrap gap-2 justify-center max-w-xs mx-auto">
-                            {multipleImageFiles.map((file, index) => (
-                              <div
-                                key={index}
-                                className="w-20 h-20 rounded-lg overflow-hidden border-2 border-white/30 shadow-sm"
-                                title={file.name}
-                              >
-                                <Image
-                                  src={URL.createObjectURL(file)}
-                                  alt={`Preview ${index + 1}`}
-                                  className="w-full h-full object-cover"
-                                  width={80}
-                                  height={80}
-                                />
-                              </div>
-                            ))}
-                          </div>
-                        </div>
-                      )}
+                      {/* Inputs in send order, with their roles */}
+                      <div className="mt-4">
+                        <ComposeTray
+                          images={composeItems}
+                          onChange={updateComposeImages}
+                          onIncludeCurrent={
+                            composeSkipsCurrent
+                              ? () => setComposeSkipsCurrent(false)
+                              : undefined
+                          }
+                        />
+                      </div>
                     </div>
                   </div>
                 ) : (
-                  /* Other modes: Image centered */
-                  <div className="flex flex-col items-center gap-6">
-                    <div className="w-full max-w-4xl aspect-video overflow-hidden rounded-lg border relative">
-                      <Image
-                        src={generatedImage || uploadedImageUrl || ""}
-                        alt="Generated"
-                        className="w-full h-full object-contain"
-                        width={800}
-                        height={450}
-                      />
+                  /* Other modes: Image centered, edit conversation beside it */
+                  <div className="flex flex-col lg:flex-row items-center lg:items-start justify-center gap-6">
+                    <div className="flex flex-col items-center gap-6 w-full max-w-4xl">
+                      {comparing && compareSource && generatedImage ? (
+                        <CompareView
+                          before={compareSource}
+                          after={generatedImage}
+                        />
+                      ) : mode === "extend-image" ? (
+                        /* Preview of the image on the target canvas */
+                        <div
+                          className={`flex h-[50vh] max-w-full overflow-hidden rounded-lg border-2 border-dashed border-purple-400/60 bg-gray-800/40 ${ANCHOR_CLASSES[extendAnchor]}`}
+                          style={{
+                            aspectRatio: extendAspectRatio.replace(":", " / "),
+                          }}
+                        >
+                          <Image
+                            src={generatedImage || uploadedImageUrl || ""}
+                            alt="Image to extend"
+                            className="max-w-full max-h-full w-auto h-auto object-contain"
+                            width={800}
+                            height={450}
+                          />
+                        </div>
+                      ) : mode === "edit-image" && masking ? (
+                        <MaskCanvas
+                          src={generatedImage || uploadedImageUrl || ""}
+                          onMaskChange={setMaskDataUrl}
+                        />
+                      ) : (
+                        <div className="w-full aspect-video overflow-hidden rounded-lg border relative">
+                          <Image
+                            src={generatedImage || uploadedImageUrl || ""}
+                            alt="Generated"
+                            className="w-full h-full object-contain"
+                            width={800}
+                            height={450}
+                          />
+                        </div>
+                      )}
+                      <div className="flex items-center gap-3">
+                        {mode === "edit-image" && (
+                          <button
+                            onClick={() => {
+                              setMasking(!masking);
+                              setMaskDataUrl(null);
+                              setComparing(false);
+                            }}
+                            aria-pressed={masking}
+                            className={`inline-flex items-center gap-2 text-sm py-2 px-3 rounded-lg border transition-colors ${
+                              masking
+                                ? "bg-purple-600/50 border-purple-500/60 text-white"
+                                : "bg-gray-800/80 border-gray-700 text-gray-200 hover:bg-gray-700/90"
+                            }`}
+                            title="Paint the region to edit"
+                          >
+                            <Brush className="w-4 h-4" />
+                            {masking ? "Edit whole image" : "Mask region"}
+                          </button>
+                        )}
+                        {compareToggle}
+                        {generatedImage && imageKeySource && (
+                          <KeySourceBadge source={imageKeySource} />
+                        )}
+                      </div>
                     </div>
+                    {mode === "edit-image" && editTurns.length > 0 && (
+                      <EditThread turns={editTurns} />
+                    )}
+                  </div>
+                )}
+                {generatedImage && imageVariants.length > 1 && (
+                  <div className="mt-4 flex justify-center">
+                    <VariantStrip
+                      kind="image"
+                      sources={imageVariants}
+                      selectedIndex={imageVariants.indexOf(generatedImage)}
+                      onSelect={(index) => {
+                        setGeneratedImage(imageVariants[index]);
+                        history.replaceImage(imageVariants[index]);
+                      }}
+                      onDownloadAll={downloadAllImages}
+                    />
                   </div>
                 )}
               </div>
             )}
 
+          {history.nodes.length > 0 && !videoUrl && !isLoadingUI && (
+            <div className="w-full max-w-5xl mx-auto mt-4 flex justify-center">
+              <HistoryStrip
+                history={history}
+                originalSrc={uploadedImageUrl}
+                onSelect={(id) => showHistoryNode(history.select(id))}
+                onUndo={() => showHistoryNode(undoHistory())}
+                onRedo={() => showHistoryNode(redoHistory())}
+              />
+            </div>
+          )}
+
           {videoUrl && (
             <div className="w-full max-w-3xl mx-auto">
               <div className="flex flex-col items-center gap-6">
                 {/* Video in center */}
                 <VideoPlayer
                   src={videoUrl}
-                  onOutputChanged={handleTrimmedOutput}
+                  onCut={cutVideo}
+                  cutProgress={exportProgress}
+                  trimmed={videoUrl === trimmedUrlRef.current}
                   onDownload={downloadVideo}
                   onResetTrim={handleResetTrimState}
                 />
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setExtending(true)}
+                    className="inline-flex items-center gap-2 text-sm py-2 px-3 rounded-lg border bg-gray-800/80 border-gray-700 text-gray-200 hover:bg-gray-700/90 transition-colors"
+                    title="Continue the video from its last frame"
+                  >
+                    <StretchHorizontal className="w-4 h-4" />
+                    Extend
+                  </button>
+                  <button
+                    onClick={addVideoToTimeline}
+                    className="inline-flex items-center gap-2 text-sm py-2 px-3 rounded-lg border bg-gray-800/80 border-gray-700 text-gray-200 hover:bg-gray-700/90 transition-colors"
+                  >
+                    <ListVideo className="w-4 h-4" />
+                    Add to timeline
+                  </button>
+                </div>
+                {videoVariants.length > 1 && (
+                  <VariantStrip
+                    kind="video"
+                    sources={videoVariants.map((variant) => variant.url)}
+                    selectedIndex={activeVideoIndex}
+                    onSelect={selectVideoVariant}
+                    onDownloadAll={downloadAllVideos}
+                  />
+                )}
+                {jobEvents.job?.keySource && (
+                  <KeySourceBadge source={jobEvents.job.keySource} />
+                )}
               </div>
             </div>
           )}
@@ -946,20 +2050,70 @@ const VeoStudio: React.FC = () => {
           setPrompt={setPrompt}
           selectedModel={selectedModel}
           setSelectedModel={setSelectedModel}
+          settings={settings}
+          setSettings={setSettings}
           canStart={canStart}
-          isGenerating={isGenerating}
+          isGenerating={isGenerating || imagenBusy}
           startGeneration={startGeneration}
+          onCancel={cancelGeneration}
           imagePrompt={imagePrompt}
           setImagePrompt={setImagePrompt}
           editPrompt={editPrompt}
           setEditPrompt={setEditPrompt}
           composePrompt={composePrompt}
           setComposePrompt={setComposePrompt}
+          extendPrompt={extendPrompt}
+          setExtendPrompt={setExtendPrompt}
+          extendAspectRatio={extendAspectRatio}
+          setExtendAspectRatio={setExtendAspectRatio}
+          extendAnchor={extendAnchor}
+          setExtendAnchor={setExtendAnchor}
           geminiBusy={geminiBusy}
+          onDescribeImage={describeImage}
+          describing={describing}
+          onEnhancePrompt={enhancePrompt}
+          enhancing={enhancing}
+          promptSuggestion={
+            promptSuggestion?.mode === mode ? promptSuggestion : null
+          }
+          onAcceptSuggestion={(text) => {
+            if (promptSuggestion) {
+              promptFields[promptSuggestion.mode].set(text);
+            }
+            setPromptSuggestion(null);
+          }}
+          onDiscardSuggestion={() => setPromptSuggestion(null)}
           resetAll={resetAll}
           downloadImage={downloadImage}
+          onOpenSettings={() => setSettingsOpen(true)}
         />
       </div>
+
+      {extending && videoBlobRef.current && (
+        <ExtendVideoDialog
+          source={trimmedBlobRef.current ?? videoBlobRef.current}
+          originalPrompt={prompt}
+          model={selectedModel}
+          settings={requestSettings}
+          onExtended={showExtendedVideo}
+          onClose={() => setExtending(false)}
+          onError={(e) => setError(toGenerationError(e))}
+        />
+      )}
+      {error && (
+        <ErrorModal
+          error={error}
+          onClose={() => setError(null)}
+          onSelectKey={() => {
+            setError(null);
+            setSettingsOpen(true);
+          }}
+        />
+      )}
+      {timeline}
+      {settingsOpen && (
+        <SettingsDialog onClose={() => setSettingsOpen(false)} />
+      )}
     </AnimatedLayout>
   );
 };
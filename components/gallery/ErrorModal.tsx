@@ -1,21 +1,67 @@
 import React from 'react';
 import { XMarkIcon } from './icons';
+import { GenerationError } from '@/lib/errors';
+import { ErrorCode } from '@/types/errors';
+
+/** What went wrong and what the user can do about it, per error code. */
+const ERROR_COPY: Record<ErrorCode, { title: string; remedy: string }> = {
+  QUOTA_EXCEEDED: {
+    title: 'Quota Exceeded',
+    remedy:
+      'You have hit the rate or usage limit for this model. Wait a minute and try again, or use an API key with a higher quota.',
+  },
+  SAFETY_BLOCKED: {
+    title: 'Blocked by Safety Filters',
+    remedy:
+      'Rephrase the prompt or use different input images. Avoid real people, violence and other sensitive content.',
+  },
+  TIER_REQUIRED: {
+    title: 'Paid Tier Required',
+    remedy:
+      'This model is only available on the Paid Tier. Use an API key from a Cloud Project with billing enabled.',
+  },
+  INVALID_INPUT: {
+    title: 'Invalid Request',
+    remedy: 'Check the prompt and the input images, then try again.',
+  },
+  UPSTREAM_TIMEOUT: {
+    title: 'Request Timed Out',
+    remedy:
+      'The model took too long to respond. Try again, or pick a faster model.',
+  },
+  NO_OUTPUT: {
+    title: 'Nothing Was Generated',
+    remedy:
+      'The model answered without a result. Try again with a more specific prompt.',
+  },
+  UNKNOWN: {
+    title: 'Generation Failed',
+    remedy: 'Something went wrong. Please try again.',
+  },
+};
+
+/** Codes an API key with more quota or a paid tier can fix. */
+const KEY_FIXABLE: ErrorCode[] = ['QUOTA_EXCEEDED', 'TIER_REQUIRED'];
 
 interface ErrorModalProps {
-  message: string[];
+  error: Pick<GenerationError, 'code' | 'message' | 'details' | 'fields'>;
   onClose: () => void;
-  onSelectKey: () => void;
+  /** Offered for errors a different API key can fix. */
+  onSelectKey?: () => void;
 }
 
 /**
- * A modal component that displays an error message to the user.
- * It includes a title, the error message, a close button, and a visual error icon.
+ * A modal component that explains a failed generation: a title and remedy for
+ * its error code, the error message, and the upstream details on demand.
  */
 export const ErrorModal: React.FC<ErrorModalProps> = ({
-  message,
+  error,
   onClose,
   onSelectKey,
 }) => {
+  const copy = ERROR_COPY[error.code] ?? ERROR_COPY.UNKNOWN;
+  const showSelectKey = onSelectKey && KEY_FIXABLE.includes(error.code);
+
   return (
     <div
       className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center animate-fade-in"
@@ -51,17 +97,38 @@ export const ErrorModal: React.FC<ErrorModalProps> = ({
         <h2
           id="error-modal-title"
           className="text-xl font-bold text-white mb-2">
-          Generation Failed
+          {copy.title}
         </h2>
-        {message.map((m, index) => (
-          <p key={index} className="text-gray-400">{m}</p>
-        ))}
+        <p className="text-gray-300">{error.message}</p>
+        <p className="text-gray-400 mt-2">{copy.remedy}</p>
+        {error.fields && error.fields.length > 0 ? (
+          <ul className="mt-4 space-y-1 text-left text-sm">
+            {error.fields.map(({ field, message }, i) => (
+              <li key={`${field}-${i}`} className="text-gray-300">
+                <span className="font-mono text-red-400">{field}</span>:{' '}
+                {message}
+              </li>
+            ))}
+          </ul>
+        ) : error.details && error.details !== error.message && (
+          <details className="mt-4 text-left">
+            <summary className="cursor-pointer text-sm text-gray-500 hover:text-gray-300">
+              Details
+            </summary>
+            <pre className="mt-2 max-h-40 overflow-auto whitespace-pre-wrap break-words rounded bg-gray-900 p-3 text-xs text-gray-400">
+              {error.details}
+            </pre>
+          </details>
+        )}
+        <p className="mt-4 text-xs text-gray-600">{error.code}</p>
         <div className="mt-8 flex justify-center gap-4">
-          <button
-            onClick={onSelectKey}
-            className="px-8 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-800">
-            Add API Key
-          </button>
+          {showSelectKey && (
+            <button
+              onClick={onSelectKey}
+              className="px-8 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-800">
+              Add API Key
+            </button>
+          )}
           <button
             onClick={onClose}
             className="px-8 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-800">
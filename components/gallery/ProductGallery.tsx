@@ -1,128 +1,82 @@
 "use client";
 
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { EditVideoPage } from './EditVideoPage';
 import { ErrorModal } from './ErrorModal';
-import { VideoCameraIcon } from './icons';
 import { SavingProgressPage } from './SavingProgressPage';
 import { VideoGrid } from './VideoGrid';
 import { VideoPlayer } from './VideoPlayer';
 import { MOCK_VIDEOS } from '@/lib/constants';
+import { GenerationError, toGenerationError } from '@/lib/errors';
+import { cancelJob, jobFailure, submitVideoJob } from '@/lib/jobs/client';
+import { cheapestModelFor } from '@/lib/models';
+import { isAbortError } from '@/lib/utils';
+import { useJobEvents } from '@/hooks/useJobEvents';
 import { Video } from '@/types/gallery';
 import { Button } from '@/components/ui/Button';
+import ExtendVideoDialog from '@/components/ui/ExtendVideoDialog';
 import { ArrowLeft } from 'lucide-react';
 import { AnimatedLayout } from '@/components/ui/Animation';
-import Header from '@/components/ui/Header';
 
-const VEO3_MODEL_NAME = 'veo-3.0-fast-generate-001';
-
-// ---
-
-function blobToBase64(blob: Blob) {
-  return new Promise<string>(async (resolve) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const url = reader.result as string;
-      resolve(url.split(',')[1]);
-    };
-    reader.readAsDataURL(blob);
-  });
-}
+/**
+ * Remixes and extensions keep their soundtrack, so use the cheapest model
+ * with audio.
+ */
+const REMIX_MODEL = cheapestModelFor(
+  'create-video',
+  (model) => model.supportsAudio,
+);
 
 // ---
 
-async function generateVideoFromText(
+/**
+ * Queues a server-side Veo job for the prompt and resolves to its id.
+ */
+async function startVideoFromText(
   prompt: string,
-  numberOfVideos = 1,
-): Promise<string[]> {
-  try {
-    const response = await fetch('/api/veo/generate', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        prompt,
-        model: VEO3_MODEL_NAME,
-        config: {
-          numberOfVideos,
-          aspectRatio: '16:9',
-        },
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`API error: ${response.status}`);
-    }
-
-    const json = await response.json();
-    const operationName = json?.name;
+  signal?: AbortSignal,
+): Promise<string> {
+  const form = new FormData();
+  form.append('prompt', prompt);
+  form.append('model', REMIX_MODEL.id);
+  form.append('aspectRatio', '16:9');
 
-    if (!operationName) {
-      throw new Error('No operation name returned');
-    }
-
-    // Poll for completion
-    let operation = { done: false };
-    while (!operation.done) {
-      await new Promise((resolve) => setTimeout(resolve, 10000));
-      console.log('...Generating...');
-      
-      const operationResponse = await fetch('/api/veo/operation', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name: operationName }),
-      });
-      
-      operation = await operationResponse.json();
-    }
-
-    if (operation?.response) {
-      const videos = operation.response?.generatedVideos;
-      if (videos === undefined || videos.length === 0) {
-        throw new Error('No videos generated');
-      }
-
-      return await Promise.all(
-        videos.map(async (generatedVideo: any) => {
-          const fileUri = generatedVideo.video.uri;
-          if (!fileUri) {
-            throw new Error('No video URI found');
-          }
-
-          const dl = await fetch('/api/veo/download', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ uri: fileUri }),
-          });
-          
-          const blob = await dl.blob();
-          return blobToBase64(blob);
-        }),
-      );
-    } else {
-      throw new Error('No videos generated');
-    }
-  } catch (error) {
-    console.error('Error generating video:', error);
-    throw error;
+  const job = await submitVideoJob(form, signal);
+  if (job.status === 'failed') {
+    throw jobFailure(job);
   }
+  return job.id;
 }
 
 interface ProductGalleryProps {
   onBack: () => void;
+  /** Opens the API key settings, offered when a key could fix an error. */
+  onOpenSettings: () => void;
+  /** Offered in the player when the studio keeps a clip timeline. */
+  onAddToTimeline?: (video: Video) => void;
 }
 
 /**
  * Main component for the Product Gallery.
  * It manages the state of videos, playing videos, editing videos and error handling.
  */
-export const ProductGallery: React.FC<ProductGalleryProps> = ({ onBack }) => {
+export const ProductGallery: React.FC<ProductGalleryProps> = ({
+  onBack,
+  onOpenSettings,
+  onAddToTimeline,
+}) => {
   const [videos, setVideos] = useState<Video[]>(MOCK_VIDEOS);
   const [playingVideo, setPlayingVideo] = useState<Video | null>(null);
   const [editingVideo, setEditingVideo] = useState<Video | null>(null);
   const [isSaving, setIsSaving] = useState(false);
-  const [generationError, setGenerationError] = useState<string[] | null>(null);
+  const [generationError, setGenerationError] =
+    useState<GenerationError | null>(null);
+  const [remix, setRemix] = useState<{ jobId: string; source: Video } | null>(
+    null,
+  );
+  const remixEvents = useJobEvents(remix?.jobId ?? null);
+  const [extending, setExtending] = useState<Video | null>(null);
+  const submitAbortRef = useRef<AbortController | null>(null);
 
   const handlePlayVideo = (video: Video) => {
     setPlayingVideo(video);
@@ -141,6 +95,25 @@ export const ProductGallery: React.FC<ProductGalleryProps> = ({ onBack }) => {
     setEditingVideo(null); // Close edit page, return to grid
   };
 
+  const handleExtended = (source: Video, blob: Blob) => {
+    const extended: Video = {
+      id: self.crypto.randomUUID(),
+      title: `${source.title} (extended)`,
+      description: source.description,
+      videoUrl: URL.createObjectURL(blob),
+    };
+    setVideos((currentVideos) => [extended, ...currentVideos]);
+    setExtending(null);
+    setPlayingVideo(extended);
+  };
+
+  const failRemix = (error: unknown) => {
+    console.error('Video generation failed:', error);
+    setRemix(null);
+    setIsSaving(false);
+    setGenerationError(toGenerationError(error));
+  };
+
   const handleSaveEdit = async (originalVideo: Video) => {
     setEditingVideo(null);
     setIsSaving(true);
@@ -149,42 +122,81 @@ export const ProductGallery: React.FC<ProductGalleryProps> = ({ onBack }) => {
     try {
       const promptText = originalVideo.description;
       console.log('Generating video...', promptText);
-      const videoObjects = await generateVideoFromText(promptText);
+      submitAbortRef.current = new AbortController();
+      const jobId = await startVideoFromText(
+        promptText,
+        submitAbortRef.current.signal,
+      );
+      setRemix({ jobId, source: originalVideo });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      failRemix(error);
+    } finally {
+      submitAbortRef.current = null;
+    }
+  };
 
-      if (!videoObjects || videoObjects.length === 0) {
-        throw new Error('Video generation returned no data.');
-      }
+  const handleCancelRemix = async () => {
+    submitAbortRef.current?.abort();
+    const jobId = remix?.jobId;
+    setRemix(null);
+    setIsSaving(false);
+    if (!jobId) return;
+    try {
+      await cancelJob(jobId);
+    } catch (error) {
+      console.error('Error cancelling remix:', error);
+    }
+  };
 
-      console.log('Generated video data received.');
+  // Settle the remix once its job's event stream reports a final status
+  const remixStatus = remixEvents.job?.status;
+  const remixVideoUrl = remixEvents.videoUrls[0];
+  const remixFailed = remixStatus === 'failed' ? remixEvents.job : null;
 
-      const mimeType = 'video/mp4';
-      const videoSrc = videoObjects[0];
-      const src = `data:${mimeType};base64,${videoSrc}`;
+  useEffect(() => {
+    if (!remix) return;
+    if (remixStatus === 'succeeded' && remixVideoUrl) {
+      console.log('Generated video data received.');
 
       const newVideo: Video = {
         id: self.crypto.randomUUID(),
-        title: `Remix of "${originalVideo.title}"`,
-        description: originalVideo.description,
-        videoUrl: src,
+        title: `Remix of "${remix.source.title}"`,
+        description: remix.source.description,
+        videoUrl: remixVideoUrl,
       };
 
       setVideos((currentVideos) => [newVideo, ...currentVideos]);
       setPlayingVideo(newVideo); // Go to the new video
-    } catch (error) {
-      console.error('Video generation failed:', error);
-      setGenerationError([
-        'Veo 3 is only available on the Paid Tier.',
-        'Please select your Cloud Project to get started',
-      ]);
-    } finally {
+      setRemix(null);
       setIsSaving(false);
+    } else if (remixStatus === 'cancelled') {
+      setRemix(null);
+      setIsSaving(false);
+    } else if (remixFailed) {
+      failRemix(jobFailure(remixFailed));
+    } else if (remixStatus === 'succeeded') {
+      failRemix(new GenerationError('NO_OUTPUT', 'No videos generated'));
+    } else if (remixEvents.error) {
+      failRemix(new GenerationError('UNKNOWN', remixEvents.error));
     }
-  };
+  }, [remix, remixStatus, remixVideoUrl, remixFailed, remixEvents.error]);
+
+  const remixProgress = remixEvents.job?.metadata?.progressPercent;
 
   return (
     <AnimatedLayout>
       <div className="min-h-[calc(100vh-80px)] bg-gray-900 text-gray-100 font-sans">
-        {isSaving ? <SavingProgressPage /> : (
+        {isSaving ? (
+          <SavingProgressPage
+            status={remixStatus}
+            elapsedMs={remixEvents.elapsedMs}
+            progressPercent={
+              typeof remixProgress === 'number' ? remixProgress : null
+            }
+            onCancel={handleCancelRemix}
+          />
+        ) : (
           editingVideo ? (
             <EditVideoPage
               video={editingVideo}
@@ -204,7 +216,7 @@ export const ProductGallery: React.FC<ProductGalleryProps> = ({ onBack }) => {
                   Product Gallery
                 </h1>
                 <p className="text-gray-400 mt-2 text-lg max-w-2xl mx-auto">
-                  Explore our collection of AI-generated videos. Click any video to watch it, or select "Edit" to use its prompt as a starting point for your own creation.
+                  Explore our collection of AI-generated videos. Click any video to watch it, or select &quot;Edit&quot; to use its prompt as a starting point for your own creation.
                 </p>
               </header>
               <main className="pb-8">
@@ -219,16 +231,33 @@ export const ProductGallery: React.FC<ProductGalleryProps> = ({ onBack }) => {
             video={playingVideo}
             onClose={handleClosePlayer}
             onEdit={handleStartEdit}
+            onAddToTimeline={onAddToTimeline}
+            onExtend={(video) => {
+              setPlayingVideo(null);
+              setExtending(video);
+            }}
+          />
+        )}
+
+        {extending && (
+          <ExtendVideoDialog
+            source={extending.videoUrl}
+            originalPrompt={extending.description}
+            model={REMIX_MODEL.id}
+            settings={{}}
+            onExtended={(blob) => handleExtended(extending, blob)}
+            onClose={() => setExtending(null)}
+            onError={(error) => setGenerationError(toGenerationError(error))}
           />
         )}
 
         {generationError && (
           <ErrorModal
-            message={generationError}
+            error={generationError}
             onClose={() => setGenerationError(null)}
-            onSelectKey={async () => {
-              // Handle API key selection - you might want to implement this
-              console.log('API key selection requested');
+            onSelectKey={() => {
+              setGenerationError(null);
+              onOpenSettings();
             }}
           />
         )}
@@ -1,10 +1,25 @@
 import React from 'react';
+import { formatElapsed } from '@/lib/utils';
+import { JobStatus } from '@/types/jobs';
+
+interface SavingProgressPageProps {
+  status?: JobStatus;
+  elapsedMs?: number;
+  /** Upstream progress, when the provider reports one. */
+  progressPercent?: number | null;
+  onCancel?: () => void;
+}
 
 /**
  * A fullscreen overlay that displays a loading animation and text indicating that
- * a video remix is being created.
+ * a video remix is being created, along with the live progress of its job.
  */
-export const SavingProgressPage: React.FC = () => {
+export const SavingProgressPage: React.FC<SavingProgressPageProps> = ({
+  status,
+  elapsedMs = 0,
+  progressPercent = null,
+  onCancel,
+}) => {
   return (
     <div
       className="fixed inset-0 bg-gray-900 flex flex-col items-center justify-center z-50 animate-fade-in"
@@ -17,6 +32,28 @@ export const SavingProgressPage: React.FC = () => {
       <p className="text-gray-400 mt-2">
         Please wait while we bring your vision to life.
       </p>
+      {status && (
+        <p className="text-sm text-gray-500 mt-4">
+          {status === 'queued' ? 'Queued' : 'Generating'} ·{' '}
+          {formatElapsed(elapsedMs)} elapsed
+          {progressPercent !== null && ` · ${Math.round(progressPercent)}%`}
+        </p>
+      )}
+      {progressPercent !== null && (
+        <div className="mt-3 h-2 w-56 overflow-hidden rounded-full bg-gray-800 border border-gray-700">
+          <div
+            className="h-full rounded-full bg-gradient-to-r from-purple-500 to-yellow-400 transition-all duration-500"
+            style={{ width: `${progressPercent}%` }}
+          />
+        </div>
+      )}
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="mt-8 px-5 py-2 rounded-lg border border-gray-600 text-gray-300 hover:bg-gray-800 hover:text-white transition-colors">
+          Cancel
+        </button>
+      )}
     </div>
   );
 };
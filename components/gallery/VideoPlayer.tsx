@@ -1,11 +1,15 @@
 import React from 'react';
 import { Video } from '@/types/gallery';
+import { ListVideo, StretchHorizontal } from 'lucide-react';
 import { PencilSquareIcon, XMarkIcon } from './icons';
 
 interface VideoPlayerProps {
   video: Video;
   onClose: () => void;
   onEdit: (video: Video) => void;
+  onAddToTimeline?: (video: Video) => void;
+  /** Continues the video from its last frame. */
+  onExtend?: (video: Video) => void;
 }
 
 /**
@@ -15,6 +19,8 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   video,
   onClose,
   onEdit,
+  onAddToTimeline,
+  onExtend,
 }) => {
   return (
     <div
@@ -49,6 +55,24 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
             <p className="text-sm text-gray-300 mt-0 whitespace-pre-wrap flex-1">
               {video.description}
             </p>
+            {onExtend && (
+              <button
+                onClick={() => onExtend(video)}
+                className="flex-shrink-0 flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-3 rounded-lg transition-colors text-sm shadow-md"
+                aria-label="Extend video">
+                <StretchHorizontal className="w-5 h-5" />
+                <span className="hidden sm:inline">Extend</span>
+              </button>
+            )}
+            {onAddToTimeline && (
+              <button
+                onClick={() => onAddToTimeline(video)}
+                className="flex-shrink-0 flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-3 rounded-lg transition-colors text-sm shadow-md"
+                aria-label="Add video to timeline">
+                <ListVideo className="w-5 h-5" />
+                <span className="hidden sm:inline">Add to timeline</span>
+              </button>
+            )}
             <button
               onClick={() => onEdit(video)}
               className="flex-shrink-0 flex items-center gap-2 bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-3 rounded-lg transition-colors text-sm shadow-md"
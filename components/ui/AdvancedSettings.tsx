@@ -0,0 +1,210 @@
+import React from "react";
+import { Dices } from "lucide-react";
+import { ModelInfo } from "@/lib/models";
+import { GenerationSettings, PersonGeneration } from "@/types/studio";
+
+const PERSON_GENERATION_LABELS: Record<PersonGeneration, string> = {
+  allow_all: "Allow all people",
+  allow_adult: "Adults only",
+  dont_allow: "No people",
+};
+
+const MAX_SEED = 4294967295;
+
+const fieldClass =
+  "w-full bg-gray-900/70 focus:outline-none text-sm text-gray-200 placeholder-gray-500 rounded-md px-3 py-2 border border-gray-700 focus:border-purple-400";
+
+interface AdvancedSettingsProps {
+  model: ModelInfo | undefined;
+  settings: GenerationSettings;
+  setSettings: (settings: GenerationSettings) => void;
+}
+
+/**
+ * Model-specific generation options. Only the fields the selected model
+ * supports are shown.
+ */
+const AdvancedSettings: React.FC<AdvancedSettingsProps> = ({
+  model,
+  settings,
+  setSettings,
+}) => {
+  const update = (patch: Partial<GenerationSettings>) =>
+    setSettings({ ...settings, ...patch });
+
+  if (!model) return null;
+
+  const fields: React.ReactNode[] = [];
+
+  if (model.aspectRatios.length > 1) {
+    fields.push(
+      <label key="aspectRatio" className="space-y-1">
+        <span className="text-xs text-gray-400">Aspect ratio</span>
+        <select
+          value={settings.aspectRatio}
+          onChange={(e) => update({ aspectRatio: e.target.value })}
+          className={fieldClass}
+        >
+          {model.aspectRatios.map((ratio) => (
+            <option key={ratio} value={ratio}>
+              {ratio}
+            </option>
+          ))}
+        </select>
+      </label>
+    );
+  }
+
+  if (model.maxOutputs > 1) {
+    fields.push(
+      <label key="numberOfOutputs" className="space-y-1">
+        <span className="text-xs text-gray-400">Outputs</span>
+        <select
+          value={settings.numberOfOutputs}
+          onChange={(e) => update({ numberOfOutputs: Number(e.target.value) })}
+          className={fieldClass}
+        >
+          {Array.from({ length: model.maxOutputs }, (_, i) => i + 1).map(
+            (count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            )
+          )}
+        </select>
+      </label>
+    );
+  }
+
+  if (model.resolutions.length > 0) {
+    fields.push(
+      <label key="resolution" className="space-y-1">
+        <span className="text-xs text-gray-400">Resolution</span>
+        <select
+          value={settings.resolution ?? ""}
+          onChange={(e) => update({ resolution: e.target.value || undefined })}
+          className={fieldClass}
+        >
+          <option value="">Default</option>
+          {model.resolutions.map((resolution) => (
+            <option key={resolution} value={resolution}>
+              {resolution}
+            </option>
+          ))}
+        </select>
+      </label>
+    );
+  }
+
+  if (model.durationsSeconds.length > 1) {
+    fields.push(
+      <label key="durationSeconds" className="space-y-1">
+        <span className="text-xs text-gray-400">Duration</span>
+        <select
+          value={settings.durationSeconds ?? ""}
+          onChange={(e) =>
+            update({
+              durationSeconds: e.target.value
+                ? Number(e.target.value)
+                : undefined,
+            })
+          }
+          className={fieldClass}
+        >
+          <option value="">Default</option>
+          {model.durationsSeconds.map((seconds) => (
+            <option key={seconds} value={seconds}>
+              {seconds}s
+            </option>
+          ))}
+        </select>
+      </label>
+    );
+  }
+
+  if (model.personGeneration.length > 0) {
+    fields.push(
+      <label key="personGeneration" className="space-y-1">
+        <span className="text-xs text-gray-400">People</span>
+        <select
+          value={settings.personGeneration ?? ""}
+          onChange={(e) =>
+            update({
+              personGeneration:
+                (e.target.value as PersonGeneration) || undefined,
+            })
+          }
+          className={fieldClass}
+        >
+          <option value="">Default</option>
+          {model.personGeneration.map((policy) => (
+            <option key={policy} value={policy}>
+              {PERSON_GENERATION_LABELS[policy]}
+            </option>
+          ))}
+        </select>
+      </label>
+    );
+  }
+
+  if (model.supportsSeed) {
+    fields.push(
+      <label key="seed" className="space-y-1">
+        <span className="text-xs text-gray-400">Seed</span>
+        <div className="flex gap-1">
+          <input
+            type="number"
+            min={0}
+            max={MAX_SEED}
+            step={1}
+            value={settings.seed ?? ""}
+            onChange={(e) =>
+              update({
+                seed: e.target.value === "" ? undefined : Number(e.target.value),
+              })
+            }
+            placeholder="Random"
+            className={fieldClass}
+          />
+          <button
+            type="button"
+            onClick={() =>
+              update({ seed: Math.floor(Math.random() * (MAX_SEED + 1)) })
+            }
+            className="shrink-0 px-2 rounded-md bg-gray-700/80 hover:bg-gray-600/90 text-gray-300 transition-colors"
+            title="Pick a random seed"
+          >
+            <Dices className="w-4 h-4" />
+          </button>
+        </div>
+      </label>
+    );
+  }
+
+  return (
+    <div className="mb-4 space-y-3 rounded-lg bg-gray-900/50 border border-gray-700 p-3">
+      {fields.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">{fields}</div>
+      )}
+      {model.supportsNegativePrompt && (
+        <label className="block space-y-1">
+          <span className="text-xs text-gray-400">Negative prompt</span>
+          <input
+            type="text"
+            value={settings.negativePrompt}
+            onChange={(e) => update({ negativePrompt: e.target.value })}
+            placeholder="What to keep out of the result"
+            className={fieldClass}
+          />
+        </label>
+      )}
+      {fields.length === 0 && !model.supportsNegativePrompt && (
+        <p className="text-sm text-gray-400">
+          {model.label} has no adjustable settings.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AdvancedSettings;
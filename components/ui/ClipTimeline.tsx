@@ -0,0 +1,412 @@
+import React, { useEffect, useState } from "react";
+import Slider from "rc-slider";
+import {
+  Download,
+  Film,
+  GripVertical,
+  Loader2,
+  Music,
+  Volume2,
+  VolumeX,
+  X,
+} from "lucide-react";
+import VideoPlayer from "@/components/ui/VideoPlayer";
+import { TRANSITION_KINDS } from "@/lib/schemas";
+import { formatElapsed, triggerDownload } from "@/lib/utils";
+import { RenderClipInput, renderTimeline } from "@/lib/video/client";
+import { ExportFormat, TransitionKind } from "@/types/video";
+
+/** A clip on the timeline. */
+export interface TimelineClip extends RenderClipInput {
+  id: string;
+  title: string;
+  /** What the clip plays from: an object URL or a gallery URL. */
+  url: string;
+  /** Length of the source in seconds. */
+  duration: number;
+}
+
+const TRANSITION_LABELS: Record<TransitionKind, string> = {
+  cut: "Cut",
+  crossfade: "Crossfade",
+  "dip-to-black": "Dip to black",
+};
+
+interface ClipTimelineProps {
+  /** In playback order. */
+  clips: TimelineClip[];
+  onChange: (clips: TimelineClip[]) => void;
+  onClose: () => void;
+  onError: (error: unknown) => void;
+}
+
+/** Seconds of the timeline, counting each transition's overlap once. */
+function timelineLength(clips: TimelineClip[], transitionSeconds: number) {
+  return clips.reduce((total, clip, i) => {
+    const length = clip.trim.end - clip.trim.start;
+    const previous = clips[i - 1];
+    if (!previous || previous.transition === "cut") return total + length;
+    const overlap = Math.min(
+      transitionSeconds,
+      (previous.trim.end - previous.trim.start) / 2,
+      length / 2
+    );
+    return total + length - overlap;
+  }, 0);
+}
+
+/**
+ * Stitches studio and gallery videos into one: order the clips, trim each,
+ * pick the transition into the next one and its audio, then render the
+ * whole timeline on the server.
+ */
+const ClipTimeline: React.FC<ClipTimelineProps> = ({
+  clips,
+  onChange,
+  onClose,
+  onError,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(
+    clips[0]?.id ?? null
+  );
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [transitionSeconds, setTransitionSeconds] = useState(0.5);
+  const [format, setFormat] = useState<ExportFormat>("mp4");
+  const [progress, setProgress] = useState<number | null>(null);
+  const [rendered, setRendered] = useState<{ blob: Blob; url: string } | null>(
+    null
+  );
+  const [showRendered, setShowRendered] = useState(false);
+
+  const selected = clips.find((clip) => clip.id === selectedId) ?? clips[0];
+  const rendering = progress !== null;
+
+  useEffect(
+    () => () => {
+      if (rendered) URL.revokeObjectURL(rendered.url);
+    },
+    [rendered]
+  );
+
+  const update = (id: string, change: Partial<TimelineClip>) =>
+    onChange(
+      clips.map((clip) => (clip.id === id ? { ...clip, ...change } : clip))
+    );
+
+  const moveTo = (target: number) => {
+    if (dragIndex === null || dragIndex === target) return;
+    const next = [...clips];
+    const [moved] = next.splice(dragIndex, 1);
+    next.splice(target, 0, moved);
+    onChange(next);
+  };
+
+  const select = (id: string) => {
+    setSelectedId(id);
+    setShowRendered(false);
+  };
+
+  const render = async () => {
+    setProgress(0);
+    try {
+      const blob = await renderTimeline(clips, {
+        format,
+        transitionSeconds,
+        onProgress: setProgress,
+      });
+      setRendered({ blob, url: URL.createObjectURL(blob) });
+      setShowRendered(true);
+    } catch (e) {
+      console.error("Error rendering timeline:", e);
+      onError(e);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const download = () => {
+    if (!rendered) return;
+    const extension = rendered.blob.type.includes("webm") ? "webm" : "mp4";
+    triggerDownload(rendered.url, `timeline.${extension}`);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="timeline-dialog-title"
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-5xl max-h-[95vh] overflow-y-auto relative p-6 m-4 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-white p-2 rounded-full hover:bg-gray-700 transition-colors"
+          aria-label="Close timeline"
+        >
+          <X className="w-5 h-5" />
+        </button>
+        <h2
+          id="timeline-dialog-title"
+          className="flex items-center gap-2 text-xl font-bold text-white"
+        >
+          <Film className="w-5 h-5 text-purple-400" />
+          Timeline
+          <span className="text-sm font-normal text-gray-400">
+            {clips.length} {clips.length === 1 ? "clip" : "clips"} ·{" "}
+            {formatElapsed(timelineLength(clips, transitionSeconds) * 1000)}
+          </span>
+        </h2>
+
+        {clips.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            Add videos from the studio or the gallery to stitch them together.
+          </p>
+        ) : (
+          <>
+            {showRendered && rendered ? (
+              <VideoPlayer src={rendered.url} onDownload={download} />
+            ) : (
+              selected && <VideoPlayer src={selected.url} />
+            )}
+
+            <div className="flex items-stretch gap-1 overflow-x-auto pb-2">
+              {clips.map((clip, index) => (
+                <React.Fragment key={clip.id}>
+                  <div
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = "move";
+                      setDragIndex(index);
+                    }}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      moveTo(index);
+                      setDragIndex(null);
+                    }}
+                    onDragEnd={() => setDragIndex(null)}
+                    onClick={() => select(clip.id)}
+                    className={`shrink-0 w-36 rounded-lg overflow-hidden border-2 bg-gray-900/70 cursor-grab transition-opacity ${
+                      clip.id === selected?.id && !showRendered
+                        ? "border-purple-500"
+                        : "border-gray-700"
+                    } ${dragIndex === index ? "opacity-50" : ""}`}
+                    title={clip.title}
+                  >
+                    <div className="relative h-20 bg-black">
+                      <video
+                        src={clip.url}
+                        className="w-full h-full object-cover pointer-events-none"
+                        muted
+                        playsInline
+                        preload="metadata"
+                      />
+                      <span className="absolute top-1 left-1 flex items-center rounded bg-black/60 pr-1.5 text-[10px] text-gray-200">
+                        <GripVertical className="w-3 h-3" />
+                        {index + 1}
+                      </span>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onChange(
+                            clips.filter((other) => other.id !== clip.id)
+                          );
+                        }}
+                        className="absolute top-1 right-1 rounded-full bg-black/60 p-0.5 text-gray-200 hover:bg-red-600/80"
+                        title="Remove from timeline"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                    <div className="px-2 py-1 text-xs text-gray-300">
+                      <p className="truncate">{clip.title}</p>
+                      <p className="flex items-center gap-1 text-gray-500">
+                        {formatElapsed(
+                          (clip.trim.end - clip.trim.start) * 1000
+                        )}
+                        {clip.audio === "mute" ? (
+                          <VolumeX className="w-3 h-3" />
+                        ) : clip.audio === "clip" ? (
+                          <Volume2 className="w-3 h-3" />
+                        ) : (
+                          <Music className="w-3 h-3" />
+                        )}
+                      </p>
+                    </div>
+                  </div>
+                  {index < clips.length - 1 && (
+                    <select
+                      value={clip.transition}
+                      onChange={(e) =>
+                        update(clip.id, {
+                          transition: e.target.value as TransitionKind,
+                        })
+                      }
+                      className="self-center w-24 bg-gray-900 border border-gray-700 rounded-md text-xs text-gray-200 px-1 py-1 outline-none"
+                      aria-label={`Transition after clip ${index + 1}`}
+                    >
+                      {TRANSITION_KINDS.map((kind) => (
+                        <option key={kind} value={kind}>
+                          {TRANSITION_LABELS[kind]}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </React.Fragment>
+              ))}
+            </div>
+
+            {selected && !showRendered && (
+              <div className="rounded-lg bg-gray-900/70 border border-gray-700 p-3 space-y-3 text-sm text-gray-300">
+                <div className="flex items-center gap-3">
+                  <span className="w-12 shrink-0">Trim</span>
+                  <span className="w-12 text-right text-xs">
+                    {formatElapsed(selected.trim.start * 1000)}
+                  </span>
+                  <Slider
+                    range
+                    min={0}
+                    max={selected.duration}
+                    step={0.1}
+                    value={[selected.trim.start, selected.trim.end]}
+                    onChange={(value) => {
+                      if (!Array.isArray(value)) return;
+                      update(selected.id, {
+                        trim: { start: value[0], end: value[1] },
+                      });
+                    }}
+                  />
+                  <span className="w-12 text-xs">
+                    {formatElapsed(selected.trim.end * 1000)}
+                  </span>
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="w-12 shrink-0">Audio</span>
+                  <select
+                    value={
+                      typeof selected.audio === "string"
+                        ? selected.audio
+                        : "file"
+                    }
+                    onChange={(e) => {
+                      if (e.target.value === "file") return;
+                      update(selected.id, {
+                        audio: e.target.value as "clip" | "mute",
+                      });
+                    }}
+                    className="bg-gray-800 border border-gray-700 rounded-md text-xs text-gray-200 px-2 py-1 outline-none"
+                    aria-label="Clip audio"
+                  >
+                    <option value="clip">Clip sound</option>
+                    <option value="mute">Muted</option>
+                    {typeof selected.audio !== "string" && (
+                      <option value="file">
+                        {selected.audio instanceof File
+                          ? selected.audio.name
+                          : "Audio file"}
+                      </option>
+                    )}
+                  </select>
+                  <label className="cursor-pointer rounded-md bg-gray-700/60 hover:bg-gray-700 px-2 py-1 text-xs text-gray-200">
+                    Replace with audio file…
+                    <input
+                      type="file"
+                      accept="audio/*"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) update(selected.id, { audio: file });
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                  {selected.audio !== "mute" && (
+                    <label className="flex items-center gap-2 text-xs">
+                      Volume
+                      <input
+                        type="range"
+                        min={0}
+                        max={2}
+                        step={0.05}
+                        value={selected.volume}
+                        onChange={(e) =>
+                          update(selected.id, {
+                            volume: Number(e.target.value),
+                          })
+                        }
+                        className="w-28 accent-purple-500"
+                      />
+                      {Math.round(selected.volume * 100)}%
+                    </label>
+                  )}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex flex-wrap items-center justify-end gap-3 text-sm text-gray-300">
+          <label className="flex items-center gap-2">
+            Transition length
+            <input
+              type="number"
+              min={0.1}
+              max={2}
+              step={0.1}
+              value={transitionSeconds}
+              onChange={(e) => setTransitionSeconds(Number(e.target.value))}
+              className="w-16 bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-gray-200 outline-none"
+            />
+            s
+          </label>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            className="bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-gray-200 outline-none"
+            aria-label="Export format"
+          >
+            <option value="mp4">MP4</option>
+            <option value="webm">WebM</option>
+          </select>
+          {rendered && !showRendered && (
+            <button
+              onClick={() => setShowRendered(true)}
+              className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold transition-colors"
+            >
+              Show render
+            </button>
+          )}
+          {rendered && (
+            <button
+              onClick={download}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              Download
+            </button>
+          )}
+          <button
+            onClick={render}
+            disabled={clips.length === 0 || rendering}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors disabled:opacity-50"
+          >
+            {rendering ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Rendering {Math.round(progress * 100)}%
+              </>
+            ) : (
+              "Render"
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClipTimeline;
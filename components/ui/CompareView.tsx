@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import { Columns2, Diff, Layers, Repeat } from "lucide-react";
+import { pixelDiff } from "@/lib/mask";
+
+type CompareMode = "split" | "toggle" | "onion" | "diff";
+
+const MODES: { mode: CompareMode; label: string; icon: React.ElementType }[] = [
+  { mode: "split", label: "Split", icon: Columns2 },
+  { mode: "toggle", label: "Toggle", icon: Repeat },
+  { mode: "onion", label: "Onion skin", icon: Layers },
+  { mode: "diff", label: "Difference", icon: Diff },
+];
+
+interface CompareViewProps {
+  /** The image the result was made from. */
+  before: string;
+  after: string;
+}
+
+/**
+ * Before/after views of an edit: a draggable split, a toggle, an onion skin
+ * and an overlay of the pixels that changed.
+ */
+const CompareView: React.FC<CompareViewProps> = ({ before, after }) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [mode, setMode] = useState<CompareMode>("split");
+  const [split, setSplit] = useState(50);
+  const [showBefore, setShowBefore] = useState(false);
+  const [opacity, setOpacity] = useState(50);
+  const [diff, setDiff] = useState<{ overlay: string; changed: number } | null>(
+    null
+  );
+
+  // The overlay is only worth computing once it is asked for
+  useEffect(() => {
+    setDiff(null);
+    if (mode !== "diff") return;
+    let cancelled = false;
+    pixelDiff(before, after)
+      .then((result) => !cancelled && setDiff(result))
+      .catch((e) => console.error("Error computing difference:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, before, after]);
+
+  const moveSplit = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const percent = ((e.clientX - rect.left) / rect.width) * 100;
+    setSplit(Math.min(100, Math.max(0, percent)));
+  };
+
+  const layer = (src: string, alt: string, style?: React.CSSProperties) => (
+    <Image
+      src={src}
+      alt={alt}
+      className="absolute inset-0 w-full h-full object-contain select-none"
+      style={style}
+      width={800}
+      height={450}
+      draggable={false}
+    />
+  );
+
+  return (
+    <div className="flex flex-col items-center gap-3 w-full">
+      <div
+        ref={frameRef}
+        className={`w-full aspect-video overflow-hidden rounded-lg border relative ${
+          mode === "split" ? "cursor-ew-resize touch-none" : ""
+        }`}
+        onPointerDown={(e) => {
+          if (mode !== "split") return;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          moveSplit(e);
+        }}
+        onPointerMove={(e) => {
+          if (mode === "split" && e.buttons === 1) moveSplit(e);
+        }}
+      >
+        {mode === "split" && (
+          <>
+            {layer(after, "After")}
+            {layer(before, "Before", {
+              clipPath: `inset(0 ${100 - split}% 0 0)`,
+            })}
+            <div
+              className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none"
+              style={{ left: `${split}%` }}
+            />
+            <span className="absolute top-2 left-2 rounded bg-black/60 px-2 py-0.5 text-xs text-gray-200">
+              Before
+            </span>
+            <span className="absolute top-2 right-2 rounded bg-black/60 px-2 py-0.5 text-xs text-gray-200">
+              After
+            </span>
+          </>
+        )}
+        {mode === "toggle" && (
+          <>
+            {layer(showBefore ? before : after, showBefore ? "Before" : "After")}
+            <span className="absolute top-2 left-2 rounded bg-black/60 px-2 py-0.5 text-xs text-gray-200">
+              {showBefore ? "Before" : "After"}
+            </span>
+          </>
+        )}
+        {mode === "onion" && (
+          <>
+            {layer(before, "Before")}
+            {layer(after, "After", { opacity: opacity / 100 })}
+          </>
+        )}
+        {mode === "diff" && (
+          <>
+            {layer(after, "After", { filter: "grayscale(1) brightness(0.6)" })}
+            {diff && layer(diff.overlay, "Changed pixels")}
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-2 rounded-lg bg-gray-900/70 border border-gray-700 p-1.5">
+        {MODES.map(({ mode: option, label, icon: Icon }) => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            aria-pressed={mode === option}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm transition-colors ${
+              mode === option
+                ? "bg-purple-600/50 text-white"
+                : "text-gray-300 hover:bg-gray-700/50"
+            }`}
+            title={label}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+        {mode === "toggle" && (
+          <button
+            onClick={() => setShowBefore(!showBefore)}
+            className="px-3 py-1.5 rounded-md text-sm text-gray-200 bg-gray-700/60 hover:bg-gray-700 transition-colors"
+          >
+            Show {showBefore ? "after" : "before"}
+          </button>
+        )}
+        {mode === "onion" && (
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={opacity}
+            onChange={(e) => setOpacity(Number(e.target.value))}
+            className="w-28 accent-purple-500"
+            aria-label="Result opacity"
+          />
+        )}
+        {mode === "diff" && (
+          <span className="px-2 text-sm text-gray-300">
+            {diff
+              ? `${(diff.changed * 100).toFixed(1)}% of pixels changed`
+              : "Comparing..."}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
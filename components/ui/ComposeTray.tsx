@@ -0,0 +1,125 @@
+import React, { useState } from "react";
+import Image from "next/image";
+import { GripVertical, Plus, X } from "lucide-react";
+import { COMPOSE_ROLES } from "@/lib/compose";
+import { ComposeRole } from "@/types/studio";
+
+/** An input image of a composition. */
+export interface ComposeImage {
+  id: string;
+  role: ComposeRole;
+  /** Absent for the studio's current image. */
+  file?: File;
+  /** Preview source: an object URL, or the current image. */
+  url: string;
+}
+
+interface ComposeTrayProps {
+  /** In the order they are sent. */
+  images: ComposeImage[];
+  onChange: (images: ComposeImage[]) => void;
+  /** Offered when the current image was removed from the composition. */
+  onIncludeCurrent?: () => void;
+}
+
+/** Thumbnails of the compose inputs: drag to reorder, tag a role, remove. */
+const ComposeTray: React.FC<ComposeTrayProps> = ({
+  images,
+  onChange,
+  onIncludeCurrent,
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const moveTo = (target: number) => {
+    if (dragIndex === null || dragIndex === target) return;
+    const next = [...images];
+    const [moved] = next.splice(dragIndex, 1);
+    next.splice(target, 0, moved);
+    onChange(next);
+  };
+
+  const setRole = (id: string, role: ComposeRole) =>
+    onChange(
+      images.map((image) => (image.id === id ? { ...image, role } : image))
+    );
+
+  return (
+    <div className="flex flex-wrap gap-3 justify-center">
+      {images.map((image, index) => (
+        <div
+          key={image.id}
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = "move";
+            setDragIndex(index);
+          }}
+          onDragOver={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            moveTo(index);
+            setDragIndex(null);
+          }}
+          onDragEnd={() => setDragIndex(null)}
+          className={`w-28 rounded-lg overflow-hidden border-2 bg-gray-900/70 shadow-md cursor-grab transition-opacity ${
+            dragIndex === index
+              ? "border-purple-500 opacity-50"
+              : "border-white/30"
+          }`}
+          title={image.file?.name ?? "Current image"}
+        >
+          <div className="relative h-24">
+            <Image
+              src={image.url}
+              alt={`Input ${index + 1}`}
+              className="w-full h-full object-cover"
+              width={112}
+              height={96}
+              draggable={false}
+            />
+            <span className="absolute top-1 left-1 flex items-center rounded bg-black/60 pr-1.5 text-[10px] text-gray-200">
+              <GripVertical className="w-3 h-3" />
+              {index + 1}
+              {!image.file && " · current"}
+            </span>
+            <button
+              onClick={() =>
+                onChange(images.filter((other) => other.id !== image.id))
+              }
+              className="absolute top-1 right-1 rounded-full bg-black/60 p-0.5 text-gray-200 hover:bg-red-600/80"
+              title="Remove"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+          <select
+            value={image.role}
+            onChange={(e) => setRole(image.id, e.target.value as ComposeRole)}
+            className="w-full bg-gray-800 text-xs text-gray-200 px-1 py-1 outline-none"
+            aria-label={`Role of image ${index + 1}`}
+          >
+            {COMPOSE_ROLES.map(({ role, label }) => (
+              <option key={role} value={role}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+      {onIncludeCurrent && (
+        <button
+          onClick={onIncludeCurrent}
+          className="w-28 h-[7.5rem] flex flex-col items-center justify-center gap-1 rounded-lg border-2 border-dashed border-white/30 text-xs text-gray-300 hover:bg-white/10"
+        >
+          <Plus className="w-4 h-4" />
+          Include current image
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ComposeTray;
@@ -1,29 +1,51 @@
 "use client";
 
-import React from "react";
+import React, { useRef, useState } from "react";
 import {
   RotateCcw,
   Image,
   Edit,
   Palette,
+  Expand,
   Video,
+  Clapperboard,
   Download,
   Sparkles,
   Grid3X3,
+  KeyRound,
+  ScanText,
+  SlidersHorizontal,
+  WandSparkles,
+  X,
 } from "lucide-react";
+import AdvancedSettings from "@/components/ui/AdvancedSettings";
 import ModelSelector from "@/components/ui/ModelSelector";
+import PromptReview from "@/components/ui/PromptReview";
 import {
   Tooltip,
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { EXTEND_ASPECT_RATIOS } from "@/lib/mask";
+import { getModel } from "@/lib/models";
+import {
+  CanvasAnchor,
+  GenerationSettings,
+  StudioMode,
+} from "@/types/studio";
 
-type StudioMode =
-  | "create-image"
-  | "edit-image"
-  | "compose-image"
-  | "create-video"
-  | "product-gallery";
+/** The anchor grid, row by row. */
+const CANVAS_ANCHORS: CanvasAnchor[] = [
+  "top-left",
+  "top",
+  "top-right",
+  "left",
+  "center",
+  "right",
+  "bottom-left",
+  "bottom",
+  "bottom-right",
+];
 
 interface ComposerProps {
   mode: StudioMode;
@@ -37,9 +59,14 @@ interface ComposerProps {
   selectedModel: string;
   setSelectedModel: (model: string) => void;
 
+  settings: GenerationSettings;
+  setSettings: (settings: GenerationSettings) => void;
+
   canStart: boolean;
   isGenerating: boolean;
   startGeneration: () => void;
+  /** Stops the in-flight generation; the button only shows while busy. */
+  onCancel?: () => void;
 
   imagePrompt: string;
   setImagePrompt: (value: string) => void;
@@ -47,11 +74,30 @@ interface ComposerProps {
   setEditPrompt: (value: string) => void;
   composePrompt: string;
   setComposePrompt: (value: string) => void;
+  extendPrompt: string;
+  setExtendPrompt: (value: string) => void;
+  extendAspectRatio: string;
+  setExtendAspectRatio: (value: string) => void;
+  extendAnchor: CanvasAnchor;
+  setExtendAnchor: (value: CanvasAnchor) => void;
 
   geminiBusy: boolean;
 
+  /** Writes the current mode's prompt from a reference image. */
+  onDescribeImage?: (file: File) => void;
+  describing?: boolean;
+
+  /** Rewrites the current mode's prompt into a fuller one for review. */
+  onEnhancePrompt?: () => void;
+  enhancing?: boolean;
+  /** A rewrite waiting to be accepted or discarded. */
+  promptSuggestion?: { original: string; suggestion: string } | null;
+  onAcceptSuggestion?: (prompt: string) => void;
+  onDiscardSuggestion?: () => void;
+
   resetAll: () => void;
   downloadImage: () => void;
+  onOpenSettings: () => void;
 }
 
 const Composer: React.FC<ComposerProps> = ({
@@ -63,9 +109,12 @@ const Composer: React.FC<ComposerProps> = ({
   setPrompt,
   selectedModel,
   setSelectedModel,
+  settings,
+  setSettings,
   canStart,
   isGenerating,
   startGeneration,
+  onCancel,
 
   imagePrompt,
   setImagePrompt,
@@ -73,10 +122,40 @@ const Composer: React.FC<ComposerProps> = ({
   setEditPrompt,
   composePrompt,
   setComposePrompt,
+  extendPrompt,
+  setExtendPrompt,
+  extendAspectRatio,
+  setExtendAspectRatio,
+  extendAnchor,
+  setExtendAnchor,
   geminiBusy,
+  onDescribeImage,
+  describing = false,
+  onEnhancePrompt,
+  enhancing = false,
+  promptSuggestion,
+  onAcceptSuggestion,
+  onDiscardSuggestion,
   resetAll,
   downloadImage,
+  onOpenSettings,
 }) => {
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const describeInputRef = useRef<HTMLInputElement>(null);
+  const canDescribe =
+    !!onDescribeImage && (mode === "create-image" || mode === "create-video");
+
+  const currentPrompt =
+    mode === "create-video"
+      ? prompt
+      : mode === "create-image"
+      ? imagePrompt
+      : mode === "edit-image"
+      ? editPrompt
+      : mode === "compose-image"
+      ? composePrompt
+      : extendPrompt;
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -96,8 +175,12 @@ const Composer: React.FC<ComposerProps> = ({
         return "Edit Image";
       case "compose-image":
         return "Compose Image";
+      case "extend-image":
+        return "Extend Image";
       case "create-video":
         return "Create Video";
+      case "storyboard":
+        return "Storyboard";
       case "product-gallery":
         return "Product Gallery";
       default:
@@ -152,8 +235,57 @@ const Composer: React.FC<ComposerProps> = ({
             setSelectedModel={setSelectedModel}
             mode={mode}
           />
+          <div className="flex items-center gap-2">
+            {onEnhancePrompt && (
+              <button
+                onClick={onEnhancePrompt}
+                disabled={!currentPrompt.trim() || enhancing}
+                aria-busy={enhancing}
+                className="flex items-center gap-2 text-sm font-medium px-3 py-2 rounded-md transition-colors border text-gray-300 bg-gray-800/80 hover:bg-gray-700/90 border-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Expand the prompt into a detailed one"
+              >
+                {enhancing ? (
+                  <div className="w-4 h-4 border-2 border-t-transparent border-gray-300 rounded-full animate-spin" />
+                ) : (
+                  <WandSparkles className="w-4 h-4" />
+                )}
+                Enhance
+              </button>
+            )}
+            <button
+              onClick={() => setShowAdvanced(!showAdvanced)}
+              aria-expanded={showAdvanced}
+              className={`flex items-center gap-2 text-sm font-medium px-3 py-2 rounded-md transition-colors border ${
+                showAdvanced
+                  ? "text-white bg-purple-600/50 border-purple-500/60"
+                  : "text-gray-300 bg-gray-800/80 hover:bg-gray-700/90 border-gray-700"
+              }`}
+              title="Advanced settings"
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+              Advanced
+            </button>
+          </div>
         </div>
 
+        {showAdvanced && (
+          <AdvancedSettings
+            model={getModel(selectedModel)}
+            settings={settings}
+            setSettings={setSettings}
+          />
+        )}
+
+        {promptSuggestion && onAcceptSuggestion && onDiscardSuggestion && (
+          <PromptReview
+            key={promptSuggestion.suggestion}
+            original={promptSuggestion.original}
+            suggestion={promptSuggestion.suggestion}
+            onAccept={onAcceptSuggestion}
+            onDiscard={onDiscardSuggestion}
+          />
+        )}
+
         {mode === "create-video" && (
           <textarea
             value={prompt}
@@ -198,6 +330,57 @@ const Composer: React.FC<ComposerProps> = ({
           />
         )}
 
+        {mode === "extend-image" && (
+          <>
+            <textarea
+              value={extendPrompt}
+              onChange={(e) => setExtendPrompt(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Describe what should fill the new space (optional)..."
+              className="w-full bg-gray-900/70 focus:bg-gray-800/90 focus:outline-none resize-none text-base font-normal text-gray-200 placeholder-gray-400 rounded-lg px-4 py-3 border border-gray-700 focus:border-purple-400 transition-all duration-200"
+              rows={2}
+            />
+            <div className="flex items-center gap-4 mt-3">
+              <div className="flex gap-1">
+                {EXTEND_ASPECT_RATIOS.map((ratio) => (
+                  <button
+                    key={ratio}
+                    onClick={() => setExtendAspectRatio(ratio)}
+                    aria-pressed={extendAspectRatio === ratio}
+                    className={`px-3 py-1.5 rounded-md text-sm transition-colors ${
+                      extendAspectRatio === ratio
+                        ? "bg-purple-600/50 text-white"
+                        : "bg-gray-900/70 text-gray-300 hover:bg-gray-700/50"
+                    }`}
+                  >
+                    {ratio}
+                  </button>
+                ))}
+              </div>
+              <div
+                className="grid grid-cols-3 gap-0.5 rounded-md bg-gray-900/70 border border-gray-700 p-1"
+                role="radiogroup"
+                aria-label="Anchor"
+              >
+                {CANVAS_ANCHORS.map((anchor) => (
+                  <button
+                    key={anchor}
+                    onClick={() => setExtendAnchor(anchor)}
+                    role="radio"
+                    aria-checked={extendAnchor === anchor}
+                    className={`w-4 h-4 rounded-sm transition-colors ${
+                      extendAnchor === anchor
+                        ? "bg-purple-500"
+                        : "bg-gray-700 hover:bg-gray-600"
+                    }`}
+                    title={`Keep the image at the ${anchor.replace("-", " ")}`}
+                  />
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
         <div className="flex items-center justify-between mt-4">
           <div className="flex items-center gap-2">
             <button
@@ -207,6 +390,51 @@ const Composer: React.FC<ComposerProps> = ({
             >
               <RotateCcw className="w-5 h-5 text-gray-300" />
             </button>
+            <button
+              onClick={onOpenSettings}
+              className="h-10 w-10 flex items-center justify-center bg-gray-700/80 rounded-full hover:bg-gray-600/90 cursor-pointer transition-colors"
+              title="API key settings"
+            >
+              <KeyRound className="w-5 h-5 text-gray-300" />
+            </button>
+            {canDescribe && (
+              <>
+                <button
+                  onClick={() => describeInputRef.current?.click()}
+                  disabled={describing}
+                  aria-busy={describing}
+                  className="h-10 w-10 flex items-center justify-center bg-gray-700/80 rounded-full hover:bg-gray-600/90 cursor-pointer transition-colors disabled:cursor-not-allowed"
+                  title="Write the prompt from a reference image"
+                >
+                  {describing ? (
+                    <div className="w-4 h-4 border-2 border-t-transparent border-gray-300 rounded-full animate-spin" />
+                  ) : (
+                    <ScanText className="w-5 h-5 text-gray-300" />
+                  )}
+                </button>
+                <input
+                  ref={describeInputRef}
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onDescribeImage?.(file);
+                    e.target.value = "";
+                  }}
+                />
+              </>
+            )}
+            {onCancel && (isGenerating || geminiBusy) && (
+              <button
+                onClick={onCancel}
+                className="h-10 inline-flex items-center gap-1.5 px-4 bg-red-600/80 rounded-full hover:bg-red-600 text-white text-sm cursor-pointer transition-colors"
+                title="Cancel generation"
+              >
+                <X className="w-4 h-4" />
+                <span>Cancel</span>
+              </button>
+            )}
           </div>
           <button
             onClick={startGeneration}
@@ -224,6 +452,8 @@ const Composer: React.FC<ComposerProps> = ({
                 ? "Edit Image"
                 : mode === "compose-image"
                 ? "Compose Image"
+                : mode === "extend-image"
+                ? "Extend Image"
                 : "Generate Video"
             }
           >
@@ -312,6 +542,31 @@ const Composer: React.FC<ComposerProps> = ({
               </TooltipContent>
             )}
           </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <button
+                onClick={() =>
+                  !isTabDisabled("extend-image") && setMode("extend-image")
+                }
+                disabled={isTabDisabled("extend-image")}
+                className={`flex items-center justify-center gap-2 px-3 py-2 rounded-md text-sm transition-all duration-200 flex-1 ${
+                  mode === "extend-image"
+                    ? "bg-purple-600/50 text-white shadow-inner"
+                    : isTabDisabled("extend-image")
+                    ? "text-gray-500 cursor-not-allowed opacity-60"
+                    : "text-gray-300 hover:bg-gray-700/50 hover:text-white"
+                }`}
+              >
+                <Expand className="w-4 h-4" />
+                {getTabText("extend-image")}
+              </button>
+            </TooltipTrigger>
+            {getTabTooltip("extend-image") && (
+              <TooltipContent>
+                <p>{getTabTooltip("extend-image")}</p>
+              </TooltipContent>
+            )}
+          </Tooltip>
           <Tooltip>
             <TooltipTrigger asChild>
               <button
@@ -337,6 +592,24 @@ const Composer: React.FC<ComposerProps> = ({
               </TooltipContent>
             )}
           </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <button
+                onClick={() => setMode("storyboard")}
+                className={`flex items-center justify-center gap-2 px-3 py-2 rounded-md text-sm transition-all duration-200 flex-1 ${
+                  mode === "storyboard"
+                    ? "bg-purple-600/50 text-white shadow-inner"
+                    : "text-gray-300 hover:bg-gray-700/50 hover:text-white"
+                }`}
+              >
+                <Clapperboard className="w-4 h-4" />
+                {getTabText("storyboard")}
+              </button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Plan a scene shot by shot and generate it as one video</p>
+            </TooltipContent>
+          </Tooltip>
           <Tooltip>
             <TooltipTrigger asChild>
               <button
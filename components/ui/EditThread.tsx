@@ -0,0 +1,56 @@
+import React, { useEffect, useRef } from "react";
+import Image from "next/image";
+import { Bot } from "lucide-react";
+
+/** One exchange of a conversational edit, as shown in the studio. */
+export interface EditTurn {
+  prompt: string;
+  /** The model's text reply, if it gave one. */
+  reply?: string;
+  /** Data URL of the image the turn produced. */
+  image?: string;
+}
+
+/** The prompts and replies of the current edit session, oldest first. */
+const EditThread: React.FC<{ turns: EditTurn[] }> = ({ turns }) => {
+  const endRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest exchange in view
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "nearest" });
+  }, [turns.length]);
+
+  return (
+    <div className="w-full lg:w-80 max-h-[28rem] overflow-y-auto space-y-3 rounded-lg bg-gray-900/60 border border-gray-700 p-3">
+      {turns.map((turn, index) => (
+        <div key={index} className="space-y-2">
+          <p className="ml-8 rounded-lg bg-purple-600/40 px-3 py-2 text-sm text-white">
+            {turn.prompt}
+          </p>
+          <div className="mr-8 flex gap-2">
+            <Bot className="w-4 h-4 mt-2 shrink-0 text-purple-300" />
+            <div className="space-y-2">
+              {turn.reply && (
+                <p className="rounded-lg bg-gray-800/80 px-3 py-2 text-sm text-gray-200 whitespace-pre-wrap">
+                  {turn.reply}
+                </p>
+              )}
+              {turn.image && (
+                <Image
+                  src={turn.image}
+                  alt={`Edit ${index + 1}`}
+                  className="w-24 rounded-md border border-gray-700"
+                  width={96}
+                  height={54}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+      <div ref={endRef} />
+    </div>
+  );
+};
+
+export default EditThread;
@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Loader2, StretchHorizontal, X } from "lucide-react";
+import { ModelRequest } from "@/lib/models";
+import { isAbortError } from "@/lib/utils";
+import {
+  continuationPrompt,
+  ExtendStage,
+  extendVideo,
+} from "@/lib/video/extend";
+
+const STAGE_LABELS: Record<ExtendStage, string> = {
+  frame: "Reading the last frame",
+  generating: "Generating the continuation",
+  joining: "Joining the clips",
+};
+
+interface ExtendVideoDialogProps {
+  /** The video to extend, or a stored result or gallery URL. */
+  source: Blob | string;
+  /** What the video was generated from, to keep the continuation on track. */
+  originalPrompt?: string;
+  model: string;
+  settings: Omit<ModelRequest, "imageCount">;
+  onExtended: (video: Blob) => void;
+  onClose: () => void;
+  onError: (error: unknown) => void;
+}
+
+/**
+ * Asks what should happen next, then chains a new clip from the video's last
+ * frame and joins it on. Closing the dialog stops the extension.
+ */
+const ExtendVideoDialog: React.FC<ExtendVideoDialogProps> = ({
+  source,
+  originalPrompt,
+  model,
+  settings,
+  onExtended,
+  onClose,
+  onError,
+}) => {
+  const [next, setNext] = useState("");
+  const [stage, setStage] = useState<ExtendStage | null>(null);
+  const [progress, setProgress] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const extend = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const video = await extendVideo(source, {
+        prompt: continuationPrompt(originalPrompt, next),
+        model,
+        settings,
+        onStage: setStage,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      onExtended(video);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error("Error extending video:", e);
+      onError(e);
+      setStage(null);
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="extend-dialog-title"
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-lg relative p-6 m-4 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-white p-2 rounded-full hover:bg-gray-700 transition-colors"
+          aria-label="Close"
+        >
+          <X className="w-5 h-5" />
+        </button>
+        <h2
+          id="extend-dialog-title"
+          className="flex items-center gap-2 text-xl font-bold text-white"
+        >
+          <StretchHorizontal className="w-5 h-5 text-purple-400" />
+          Extend video
+        </h2>
+        <p className="text-sm text-gray-400">
+          A new clip is generated from the last frame and joined onto the end,
+          so you get one longer video.
+        </p>
+        <textarea
+          value={next}
+          onChange={(e) => setNext(e.target.value)}
+          disabled={stage !== null}
+          placeholder="What happens next (optional)..."
+          className="w-full bg-gray-900/70 focus:outline-none resize-none text-sm text-gray-200 placeholder-gray-500 rounded-lg px-3 py-2 border border-gray-700 focus:border-purple-400"
+          rows={3}
+        />
+        <div className="flex items-center justify-end gap-3 text-sm">
+          {stage && (
+            <span className="mr-auto inline-flex items-center gap-2 text-gray-300">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              {STAGE_LABELS[stage]}
+              {stage === "joining" && ` ${Math.round(progress * 100)}%`}
+            </span>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={extend}
+            disabled={stage !== null}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors disabled:opacity-50"
+          >
+            Extend
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExtendVideoDialog;
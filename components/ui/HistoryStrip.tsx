@@ -0,0 +1,117 @@
+import React from "react";
+import Image from "next/image";
+import { Redo2, Undo2 } from "lucide-react";
+import { ImageHistory } from "@/hooks/useImageHistory";
+
+const MODE_LABELS: Record<string, string> = {
+  "create-image": "Create",
+  "edit-image": "Edit",
+  "compose-image": "Compose",
+  "extend-image": "Extend",
+};
+
+interface HistoryStripProps {
+  history: ImageHistory;
+  /** The uploaded image edits started from, if any. */
+  originalSrc: string | null;
+  onSelect: (id: string | null) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+/**
+ * Every image of the session in creation order. The current image and its
+ * ancestors are highlighted; other branches are dimmed but can be picked to
+ * branch from them.
+ */
+const HistoryStrip: React.FC<HistoryStripProps> = ({
+  history,
+  originalSrc,
+  onSelect,
+  onUndo,
+  onRedo,
+}) => {
+  const { nodes, current, currentPath } = history;
+  const number = new Map(nodes.map((node, index) => [node.id, index + 1]));
+
+  const thumbClass = (active: boolean, onPath: boolean) =>
+    `relative shrink-0 w-20 aspect-video overflow-hidden rounded-md border-2 transition-all ${
+      active
+        ? "border-purple-500 shadow-md"
+        : onPath
+        ? "border-purple-400/40"
+        : "border-transparent opacity-50 hover:opacity-100"
+    }`;
+
+  return (
+    <div className="flex items-center gap-2 max-w-full">
+      <button
+        onClick={onUndo}
+        disabled={!history.canUndo}
+        className="p-2 rounded-md text-gray-300 hover:bg-gray-700/50 disabled:opacity-40 disabled:cursor-not-allowed"
+        title="Undo (Ctrl+Z)"
+      >
+        <Undo2 className="w-4 h-4" />
+      </button>
+      <div className="flex gap-2 overflow-x-auto py-1">
+        {originalSrc && (
+          <button
+            onClick={() => onSelect(null)}
+            className={thumbClass(current === null, true)}
+            title="Original upload"
+          >
+            <Image
+              src={originalSrc}
+              alt="Original"
+              className="w-full h-full object-cover"
+              width={80}
+              height={45}
+            />
+            <span className="absolute bottom-0 inset-x-0 bg-black/60 text-[10px] text-gray-200">
+              Original
+            </span>
+          </button>
+        )}
+        {nodes.map((node) => (
+          <button
+            key={node.id}
+            onClick={() => onSelect(node.id)}
+            className={thumbClass(
+              node.id === current?.id,
+              currentPath.has(node.id)
+            )}
+            title={[
+              `${MODE_LABELS[node.mode] ?? node.mode} · ${node.model}`,
+              node.parentId && `From #${number.get(node.parentId)}`,
+              node.prompt,
+            ]
+              .filter(Boolean)
+              .join("\n")}
+          >
+            <Image
+              src={node.image}
+              alt={`Version ${number.get(node.id)}`}
+              className="w-full h-full object-cover"
+              width={80}
+              height={45}
+            />
+            <span className="absolute bottom-0 inset-x-0 bg-black/60 text-[10px] text-gray-200">
+              #{number.get(node.id)}
+              {node.parentId && ` ← #${number.get(node.parentId)}`}
+            </span>
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={onRedo}
+        disabled={!history.canRedo}
+        className="p-2 rounded-md text-gray-300 hover:bg-gray-700/50 disabled:opacity-40 disabled:cursor-not-allowed"
+        title="Redo (Ctrl+Shift+Z)"
+      >
+        <Redo2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default HistoryStrip;
@@ -0,0 +1,16 @@
+import React from "react";
+import { KeyRound } from "lucide-react";
+import { KeySource } from "@/types/api-key";
+
+/** Shows which Gemini key served a generation. */
+const KeySourceBadge: React.FC<{ source: KeySource }> = ({ source }) => (
+  <span
+    className="inline-flex items-center gap-1.5 rounded-full bg-gray-800/80 border border-gray-700 px-3 py-1 text-xs text-gray-400"
+    title="The Gemini API key this generation used"
+  >
+    <KeyRound className="w-3 h-3" />
+    {source === "personal" ? "Personal key" : "Server key"}
+  </span>
+);
+
+export default KeySourceBadge;
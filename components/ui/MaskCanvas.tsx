@@ -0,0 +1,209 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Brush, Eraser, Lasso, Trash2 } from "lucide-react";
+
+type MaskTool = "brush" | "lasso" | "eraser";
+
+const MASK_COLOR = "#a855f7";
+
+const TOOLS: { tool: MaskTool; label: string; icon: React.ElementType }[] = [
+  { tool: "brush", label: "Brush", icon: Brush },
+  { tool: "lasso", label: "Lasso", icon: Lasso },
+  { tool: "eraser", label: "Eraser", icon: Eraser },
+];
+
+interface MaskCanvasProps {
+  /** The image being masked. */
+  src: string;
+  /** Called after each stroke with the mask, or null once it is empty. */
+  onMaskChange: (mask: string | null) => void;
+}
+
+/**
+ * Brush and lasso painting over an image. The mask is drawn at the image's
+ * natural size, so it lines up with the pixels it selects.
+ */
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ src, onMaskChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [tool, setTool] = useState<MaskTool>("brush");
+  const [brushSize, setBrushSize] = useState(40);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(
+    null
+  );
+
+  // Active stroke: lasso points, and the canvas to restore while previewing
+  const strokeRef = useRef<{
+    points: { x: number; y: number }[];
+    snapshot: ImageData;
+  } | null>(null);
+
+  // A different image needs a fresh mask
+  useEffect(() => {
+    setSize(null);
+    onMaskChange(null);
+  }, [src, onMaskChange]);
+
+  const context = () => canvasRef.current?.getContext("2d") ?? null;
+
+  /** Pointer position in image pixels. */
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  /** Brush width in image pixels for the on-screen size the user picked. */
+  const lineWidth = (canvas: HTMLCanvasElement) =>
+    brushSize * (canvas.width / canvas.getBoundingClientRect().width);
+
+  const drawStroke = (ctx: CanvasRenderingContext2D, closed: boolean) => {
+    const stroke = strokeRef.current;
+    if (!stroke) return;
+    ctx.putImageData(stroke.snapshot, 0, 0);
+    ctx.beginPath();
+    stroke.points.forEach(({ x, y }, i) =>
+      i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)
+    );
+    if (tool === "lasso") {
+      ctx.globalCompositeOperation = "source-over";
+      if (closed) {
+        ctx.closePath();
+        ctx.fillStyle = MASK_COLOR;
+        ctx.fill();
+      } else {
+        ctx.lineWidth = Math.max(2, lineWidth(ctx.canvas) / 8);
+        ctx.strokeStyle = MASK_COLOR;
+        ctx.stroke();
+      }
+      return;
+    }
+    ctx.globalCompositeOperation =
+      tool === "eraser" ? "destination-out" : "source-over";
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.lineWidth = lineWidth(ctx.canvas);
+    ctx.strokeStyle = MASK_COLOR;
+    // A click without movement still paints a dot
+    if (stroke.points.length === 1) {
+      const [{ x, y }] = stroke.points;
+      ctx.lineTo(x + 0.01, y);
+    }
+    ctx.stroke();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = context();
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    strokeRef.current = {
+      points: [toImagePoint(e)],
+      snapshot: ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height),
+    };
+    drawStroke(ctx, false);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = context();
+    if (!ctx || !strokeRef.current) return;
+    strokeRef.current.points.push(toImagePoint(e));
+    drawStroke(ctx, false);
+  };
+
+  const handlePointerUp = () => {
+    const ctx = context();
+    if (!ctx || !strokeRef.current) return;
+    drawStroke(ctx, true);
+    strokeRef.current = null;
+
+    const { data } = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+    let painted = false;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] > 0) {
+        painted = true;
+        break;
+      }
+    }
+    onMaskChange(painted ? ctx.canvas.toDataURL("image/png") : null);
+  };
+
+  const clearMask = () => {
+    const ctx = context();
+    if (!ctx) return;
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    onMaskChange(null);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-3 w-full">
+      <div className="relative inline-block max-w-full">
+        {/* eslint-disable-next-line @next/next/no-img-element -- the canvas is sized from the natural image */}
+        <img
+          src={src}
+          alt="Image to mask"
+          className="block max-w-full max-h-[60vh] rounded-lg border select-none"
+          draggable={false}
+          onLoad={(e) =>
+            setSize({
+              width: e.currentTarget.naturalWidth,
+              height: e.currentTarget.naturalHeight,
+            })
+          }
+        />
+        {size && (
+          <canvas
+            ref={canvasRef}
+            width={size.width}
+            height={size.height}
+            className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none rounded-lg"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 rounded-lg bg-gray-900/70 border border-gray-700 p-1.5">
+        {TOOLS.map(({ tool: option, label, icon: Icon }) => (
+          <button
+            key={option}
+            onClick={() => setTool(option)}
+            aria-pressed={tool === option}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm transition-colors ${
+              tool === option
+                ? "bg-purple-600/50 text-white"
+                : "text-gray-300 hover:bg-gray-700/50"
+            }`}
+            title={label}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+        {tool !== "lasso" && (
+          <input
+            type="range"
+            min={5}
+            max={120}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="w-24 accent-purple-500"
+            aria-label="Brush size"
+          />
+        )}
+        <button
+          onClick={clearMask}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm text-gray-300 hover:bg-gray-700/50 transition-colors"
+          title="Clear mask"
+        >
+          <Trash2 className="w-4 h-4" />
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MaskCanvas;
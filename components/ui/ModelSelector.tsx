@@ -1,12 +1,21 @@
 import { motion } from 'framer-motion';
 import React, { useState } from "react";
 import { ChevronDown, Sparkles } from "lucide-react";
+import { findModels, getModel, ModelInfo } from "@/lib/models";
+import { StudioMode } from "@/types/studio";
 
-type StudioMode =
-  | "create-image"
-  | "edit-image"
-  | "compose-image"
-  | "create-video";
+/** Short capability summary shown under each model in the menu. */
+function describeModel(model: ModelInfo): string {
+  const traits = [`~${model.relativeCost}× cost`];
+  if (model.supportsAudio) traits.push("audio");
+  if (model.maxInputImages > 1) {
+    traits.push(`up to ${model.maxInputImages} images`);
+  }
+  if (model.aspectRatios.length > 1) {
+    traits.push(model.aspectRatios.join(" · "));
+  }
+  return traits.join(" · ");
+}
 
 interface ModelSelectorProps {
   selectedModel: string;
@@ -20,23 +29,13 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
   mode,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const getAvailableModels = (currentMode: StudioMode) => {
-    if (currentMode === "create-video") {
-      return [
-        { name: "veo-3.0-generate-001", label: "Veo 3 - Generate" },
-        { name: "veo-3.0-fast-generate-001", label: "Veo 3 - Fast Generate" },
-        { name: "veo-2.0-generate-001", label: "Veo 2 - Generate" },
-      ];
-    } else {
-      // For image modes
-      return [
-        { name: "gemini-2.5-flash-image-preview", label: "Gemini 2.5 Flash" },
-        { name: "imagen-4.0-fast-generate-001", label: "Imagen 4.0 Fast" },
-      ];
-    }
-  };
-
-  const models = getAvailableModels(mode);
+  // Storyboard shots are generated with the video models
+  const models =
+    mode === "product-gallery"
+      ? []
+      : findModels({
+          modes: [mode === "storyboard" ? "create-video" : mode],
+        });
 
   const handleSelectModel = (model: string) => {
     setSelectedModel(model);
@@ -50,7 +49,7 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
         className="flex items-center gap-2 text-sm font-medium text-gray-300 bg-gray-800/80 hover:bg-gray-700/90 px-3 py-2 rounded-md transition-colors border border-gray-700"
       >
         <Sparkles className="w-4 h-4 text-purple-400" />
-        {selectedModel.replace(/-/g, ' ')}
+        {getModel(selectedModel)?.label ?? selectedModel}
         <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
       </button>
       {isOpen && (
@@ -62,11 +61,14 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
         >
           {models.map((model) => (
             <button
-              key={model.name}
-              onClick={() => handleSelectModel(model.name)}
+              key={model.id}
+              onClick={() => handleSelectModel(model.id)}
               className="w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-purple-600/50 transition-colors"
             >
               {model.label}
+              <span className="block text-xs text-gray-400">
+                {describeModel(model)}
+              </span>
             </button>
           ))}
         </motion.div>
@@ -0,0 +1,82 @@
+import React, { useState } from "react";
+import { Check, Pencil, X } from "lucide-react";
+import { diffWords } from "@/lib/utils";
+
+interface PromptReviewProps {
+  original: string;
+  suggestion: string;
+  /** Called with the suggestion as accepted, edits included. */
+  onAccept: (prompt: string) => void;
+  onDiscard: () => void;
+}
+
+/**
+ * A rewritten prompt shown as a word diff against the original, to accept
+ * as is, edit first, or discard.
+ */
+const PromptReview: React.FC<PromptReviewProps> = ({
+  original,
+  suggestion,
+  onAccept,
+  onDiscard,
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(suggestion);
+
+  return (
+    <div className="mb-3 rounded-lg bg-gray-900/70 border border-purple-500/40 p-3 space-y-3">
+      {editing ? (
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          className="w-full bg-gray-800/90 focus:outline-none resize-none text-sm text-gray-200 rounded-md px-3 py-2 border border-gray-700 focus:border-purple-400"
+          rows={5}
+          autoFocus
+        />
+      ) : (
+        <p className="max-h-40 overflow-y-auto text-sm leading-relaxed text-gray-300 whitespace-pre-wrap">
+          {diffWords(original, suggestion).map((part, index) =>
+            part.type === "same" ? (
+              <span key={index}>{part.text}</span>
+            ) : part.type === "added" ? (
+              <ins key={index} className="no-underline bg-green-500/20 text-green-200">
+                {part.text}
+              </ins>
+            ) : (
+              <del key={index} className="bg-red-500/20 text-red-300/80">
+                {part.text}
+              </del>
+            )
+          )}
+        </p>
+      )}
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onDiscard}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm text-gray-300 hover:bg-gray-700/50 transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Discard
+        </button>
+        {!editing && (
+          <button
+            onClick={() => setEditing(true)}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm text-gray-300 hover:bg-gray-700/50 transition-colors"
+          >
+            <Pencil className="w-4 h-4" />
+            Edit
+          </button>
+        )}
+        <button
+          onClick={() => onAccept(editing ? draft : suggestion)}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm text-white bg-purple-600 hover:bg-purple-700 transition-colors"
+        >
+          <Check className="w-4 h-4" />
+          Accept
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PromptReview;
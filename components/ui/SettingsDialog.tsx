@@ -0,0 +1,135 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { KeyRound, X } from "lucide-react";
+import {
+  fetchApiKeyStatus,
+  removeApiKey,
+  saveApiKey,
+} from "@/lib/api-key/client";
+import { toGenerationError } from "@/lib/errors";
+import { ApiKeyStatus } from "@/types/api-key";
+
+interface SettingsDialogProps {
+  onClose: () => void;
+}
+
+/**
+ * Lets users bring their own Gemini API key. The key is validated and stored
+ * server-side in an encrypted HTTP-only cookie; only its last characters come
+ * back to the browser.
+ */
+const SettingsDialog: React.FC<SettingsDialogProps> = ({ onClose }) => {
+  const [status, setStatus] = useState<ApiKeyStatus | null>(null);
+  const [apiKey, setApiKey] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchApiKeyStatus()
+      .then(setStatus)
+      .catch((e) => setError(e.message));
+  }, []);
+
+  const run = async (action: () => Promise<ApiKeyStatus>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      setStatus(await action());
+      setApiKey("");
+    } catch (e) {
+      console.error("Error updating API key:", e);
+      const failure = toGenerationError(e);
+      setError(
+        failure.details
+          ? `${failure.message}: ${failure.details}`
+          : failure.message
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="settings-dialog-title"
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-md relative p-8 m-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-white p-2 rounded-full hover:bg-gray-700 transition-colors"
+          aria-label="Close settings"
+        >
+          <X className="w-5 h-5" />
+        </button>
+        <h2
+          id="settings-dialog-title"
+          className="flex items-center gap-2 text-xl font-bold text-white mb-2"
+        >
+          <KeyRound className="w-5 h-5 text-purple-400" />
+          Gemini API Key
+        </h2>
+        <p className="text-sm text-gray-400">
+          Use your own key for generations, e.g. for Paid Tier models or a
+          higher quota. Requests fall back to the server key when none is set.
+        </p>
+
+        <div className="mt-4 rounded-lg bg-gray-900/70 border border-gray-700 px-4 py-3 text-sm text-gray-300">
+          {!status
+            ? "Checking…"
+            : status.source === "personal"
+            ? `Using your personal key (${status.hint})`
+            : status.serverKeyAvailable
+            ? "Using the server key"
+            : "No key configured. Add one to start generating."}
+        </div>
+
+        <form
+          className="mt-4 flex flex-col gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (apiKey.trim()) void run(() => saveApiKey(apiKey.trim()));
+          }}
+        >
+          <input
+            type="password"
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+            placeholder="Paste your Gemini API key"
+            autoComplete="off"
+            className="w-full bg-gray-900/70 focus:outline-none text-gray-200 placeholder-gray-500 rounded-lg px-4 py-2 border border-gray-700 focus:border-purple-400"
+          />
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <div className="flex justify-end gap-3">
+            {status?.source === "personal" && (
+              <button
+                type="button"
+                onClick={() => run(removeApiKey)}
+                disabled={busy}
+                className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-semibold transition-colors disabled:opacity-50"
+              >
+                Remove key
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={busy || !apiKey.trim()}
+              className="px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white text-sm font-semibold transition-colors disabled:opacity-50"
+            >
+              {busy ? "Validating…" : "Save key"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsDialog;
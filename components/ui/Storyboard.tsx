@@ -0,0 +1,494 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  Clapperboard,
+  ImagePlus,
+  ListVideo,
+  Loader2,
+  Plus,
+  X,
+} from "lucide-react";
+import ModelSelector from "@/components/ui/ModelSelector";
+import VideoPlayer from "@/components/ui/VideoPlayer";
+import { ModelRequest } from "@/lib/models";
+import {
+  emptyShot,
+  generateShot,
+  MAX_STORYBOARD_SHOTS,
+} from "@/lib/storyboard";
+import { isAbortError, triggerDownload } from "@/lib/utils";
+import { lastFrame, renderTimeline, videoDuration } from "@/lib/video/client";
+import { ShotStatus, StoryboardShot } from "@/types/storyboard";
+
+const STATUS_LABELS: Record<ShotStatus, string> = {
+  idle: "",
+  waiting: "Waiting for the previous shot",
+  generating: "Generating",
+  done: "Done",
+  failed: "Failed",
+};
+
+/** A generated clip, playable from its object URL. */
+interface ShotClip {
+  blob: Blob;
+  url: string;
+}
+
+/** Thumbnail of a shot's start image, holding its object URL while shown. */
+const StartImage: React.FC<{ file: File }> = ({ file }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return url ? (
+    <Image
+      src={url}
+      alt="Start frame"
+      className="h-16 w-28 rounded-md object-cover border border-gray-700"
+      width={112}
+      height={64}
+    />
+  ) : null;
+};
+
+interface StoryboardProps {
+  onBack: () => void;
+  selectedModel: string;
+  setSelectedModel: (model: string) => void;
+  /** The studio's settings for the selected model; each shot uses them. */
+  settings: Omit<ModelRequest, "imageCount">;
+  onError: (error: unknown) => void;
+  /** Offered for the assembled preview when the studio keeps a timeline. */
+  onAddToTimeline?: (video: Blob, title: string) => void;
+}
+
+/**
+ * Storyboard mode: a scene planned as a list of shots, each with its own
+ * prompt, camera note and optional start image. Generating runs one Veo job
+ * per shot, all at once except shots that start from the last frame of the
+ * one before, which wait for it, then joins the clips into a single preview.
+ */
+const Storyboard: React.FC<StoryboardProps> = ({
+  onBack,
+  selectedModel,
+  setSelectedModel,
+  settings,
+  onError,
+  onAddToTimeline,
+}) => {
+  const [shots, setShots] = useState<StoryboardShot[]>(() => [emptyShot()]);
+  const [statuses, setStatuses] = useState<Record<string, ShotStatus>>({});
+  const [clips, setClips] = useState<Record<string, ShotClip>>({});
+  const [preview, setPreview] = useState<ShotClip | null>(null);
+  const [showing, setShowing] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [assembling, setAssembling] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop generating and free the clips when leaving the mode
+  const clipsRef = useRef(clips);
+  clipsRef.current = clips;
+  const previewRef = useRef(preview);
+  previewRef.current = preview;
+  useEffect(
+    () => () => {
+      abortRef.current?.abort();
+      for (const clip of Object.values(clipsRef.current)) {
+        URL.revokeObjectURL(clip.url);
+      }
+      if (previewRef.current) URL.revokeObjectURL(previewRef.current.url);
+    },
+    []
+  );
+
+  const canGenerate =
+    !running && shots.every((shot) => shot.prompt.trim().length > 0);
+
+  const update = (id: string, change: Partial<StoryboardShot>) =>
+    setShots((current) =>
+      current.map((shot) => (shot.id === id ? { ...shot, ...change } : shot))
+    );
+
+  const move = (index: number, offset: number) =>
+    setShots((current) => {
+      const next = [...current];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+
+  const remove = (id: string) => {
+    setShots((current) => current.filter((shot) => shot.id !== id));
+    const clip = clips[id];
+    if (clip) {
+      URL.revokeObjectURL(clip.url);
+      setClips((current) => {
+        const next = { ...current };
+        delete next[id];
+        return next;
+      });
+    }
+  };
+
+  const setStatus = (id: string, status: ShotStatus) =>
+    setStatuses((current) => ({ ...current, [id]: status }));
+
+  const generate = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
+    for (const clip of Object.values(clips)) URL.revokeObjectURL(clip.url);
+    if (preview) URL.revokeObjectURL(preview.url);
+    setClips({});
+    setPreview(null);
+    setShowing(null);
+    setStatuses({});
+    setRunning(true);
+
+    // Shots start at once, except those continuing from the one before
+    let failure: unknown = null;
+    const pending: Promise<ShotClip | null>[] = [];
+    const runShot = async (
+      shot: StoryboardShot,
+      i: number
+    ): Promise<ShotClip | null> => {
+      try {
+        let startImage: Blob | null = shot.image;
+        if (shot.continuePrevious && i > 0) {
+          setStatus(shot.id, "waiting");
+          const before = await pending[i - 1];
+          if (!before) {
+            setStatus(shot.id, "idle");
+            return null;
+          }
+          startImage = await lastFrame(before.url);
+        }
+        const blob = await generateShot(shot, {
+          model: selectedModel,
+          settings,
+          startImage,
+          signal,
+          onStarted: () => setStatus(shot.id, "generating"),
+        });
+        const clip = { blob, url: URL.createObjectURL(blob) };
+        setClips((existing) => ({ ...existing, [shot.id]: clip }));
+        setShowing(shot.id);
+        setStatus(shot.id, "done");
+        return clip;
+      } catch (e) {
+        if (isAbortError(e)) {
+          setStatus(shot.id, "idle");
+        } else {
+          setStatus(shot.id, "failed");
+          failure ??= e;
+        }
+        return null;
+      }
+    };
+    shots.forEach((shot, i) => pending.push(runShot(shot, i)));
+
+    try {
+      const generated = await Promise.all(pending);
+      if (signal.aborted) return;
+      if (failure) {
+        console.error("Error generating storyboard:", failure);
+        onError(failure);
+        return;
+      }
+
+      const ready = generated as ShotClip[];
+      setAssembling(0);
+      const durations = await Promise.all(
+        ready.map((clip) => videoDuration(clip.url))
+      );
+      const blob = await renderTimeline(
+        ready.map((clip, i) => ({
+          source: clip.blob,
+          trim: { start: 0, end: durations[i] },
+          transition: "cut",
+          audio: "clip",
+          volume: 1,
+        })),
+        {
+          format: "mp4",
+          // Unused, since every shot cuts to the next
+          transitionSeconds: 0.5,
+          onProgress: setAssembling,
+          signal,
+        }
+      );
+      setPreview({ blob, url: URL.createObjectURL(blob) });
+      setShowing(null);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error("Error assembling storyboard:", e);
+      onError(e);
+    } finally {
+      setRunning(false);
+      setAssembling(null);
+      abortRef.current = null;
+    }
+  };
+
+  const shown = showing ? clips[showing] : preview;
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-100">
+      <div className="mx-auto max-w-6xl px-4 pb-32">
+        <header className="py-8 text-center relative">
+          <button
+            onClick={onBack}
+            className="absolute top-1/2 left-0 -translate-y-1/2 inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            Back to Studio
+          </button>
+          <h1 className="flex items-center justify-center gap-3 text-4xl font-bold text-white">
+            <Clapperboard className="w-8 h-8 text-purple-400" />
+            Storyboard
+          </h1>
+          <p className="text-gray-400 mt-2 max-w-2xl mx-auto">
+            Plan a scene shot by shot. Each shot becomes its own clip, and
+            the clips are joined in order into one preview.
+          </p>
+        </header>
+
+        <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.2fr)]">
+          <ol className="space-y-4">
+            {shots.map((shot, i) => {
+              const status = statuses[shot.id] ?? "idle";
+              const clip = clips[shot.id];
+              return (
+                <li
+                  key={shot.id}
+                  className="rounded-lg bg-gray-800/80 border border-gray-700 p-4 space-y-3"
+                >
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-semibold text-white">
+                      Shot {i + 1}
+                    </span>
+                    {status !== "idle" && (
+                      <span
+                        className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs ${
+                          status === "failed"
+                            ? "bg-red-600/30 text-red-300"
+                            : status === "done"
+                            ? "bg-green-600/30 text-green-300"
+                            : "bg-purple-600/30 text-purple-200"
+                        }`}
+                      >
+                        {status === "generating" && (
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                        )}
+                        {STATUS_LABELS[status]}
+                      </span>
+                    )}
+                    <div className="ml-auto flex items-center gap-1 text-gray-400">
+                      {clip && (
+                        <button
+                          onClick={() => setShowing(shot.id)}
+                          className="rounded-md px-2 py-1 text-xs hover:bg-gray-700 hover:text-white"
+                        >
+                          Play
+                        </button>
+                      )}
+                      <button
+                        onClick={() => move(i, -1)}
+                        disabled={running || i === 0}
+                        className="rounded-md p-1 hover:bg-gray-700 hover:text-white disabled:opacity-40"
+                        aria-label="Move shot up"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => move(i, 1)}
+                        disabled={running || i === shots.length - 1}
+                        className="rounded-md p-1 hover:bg-gray-700 hover:text-white disabled:opacity-40"
+                        aria-label="Move shot down"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => remove(shot.id)}
+                        disabled={running || shots.length === 1}
+                        className="rounded-md p-1 hover:bg-red-600/80 hover:text-white disabled:opacity-40"
+                        aria-label="Remove shot"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  <textarea
+                    value={shot.prompt}
+                    onChange={(e) =>
+                      update(shot.id, { prompt: e.target.value })
+                    }
+                    disabled={running}
+                    placeholder="What happens in this shot..."
+                    className="w-full bg-gray-900/70 focus:outline-none resize-none text-sm text-gray-200 placeholder-gray-500 rounded-lg px-3 py-2 border border-gray-700 focus:border-purple-400"
+                    rows={3}
+                  />
+                  <input
+                    value={shot.camera}
+                    onChange={(e) =>
+                      update(shot.id, { camera: e.target.value })
+                    }
+                    disabled={running}
+                    placeholder="Camera, e.g. slow dolly in, low angle"
+                    className="w-full bg-gray-900/70 focus:outline-none text-sm text-gray-200 placeholder-gray-500 rounded-lg px-3 py-2 border border-gray-700 focus:border-purple-400"
+                  />
+
+                  <div className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+                    {i > 0 && (
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={shot.continuePrevious}
+                          onChange={(e) =>
+                            update(shot.id, {
+                              continuePrevious: e.target.checked,
+                            })
+                          }
+                          disabled={running}
+                          className="accent-purple-500"
+                        />
+                        Continue from shot {i}
+                      </label>
+                    )}
+                    {!(i > 0 && shot.continuePrevious) &&
+                      (shot.image ? (
+                        <div className="flex items-center gap-2">
+                          <StartImage file={shot.image} />
+                          <button
+                            onClick={() => update(shot.id, { image: null })}
+                            disabled={running}
+                            className="text-xs text-gray-400 hover:text-white"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ) : (
+                        <label className="inline-flex cursor-pointer items-center gap-2 rounded-md bg-gray-700/60 hover:bg-gray-700 px-2 py-1 text-xs text-gray-200">
+                          <ImagePlus className="w-4 h-4" />
+                          Start image
+                          <input
+                            type="file"
+                            accept="image/*"
+                            className="hidden"
+                            disabled={running}
+                            onChange={(e) =>
+                              update(shot.id, {
+                                image: e.target.files?.[0] ?? null,
+                              })
+                            }
+                          />
+                        </label>
+                      ))}
+                  </div>
+                </li>
+              );
+            })}
+            <li>
+              <button
+                onClick={() => setShots((current) => [...current, emptyShot()])}
+                disabled={running || shots.length >= MAX_STORYBOARD_SHOTS}
+                className="w-full inline-flex items-center justify-center gap-2 rounded-lg border border-dashed border-gray-600 py-3 text-sm text-gray-300 hover:border-purple-400 hover:text-white disabled:opacity-40"
+              >
+                <Plus className="w-4 h-4" />
+                Add shot
+              </button>
+            </li>
+          </ol>
+
+          <div className="space-y-3 lg:sticky lg:top-6 self-start">
+            {shown ? (
+              <VideoPlayer
+                src={shown.url}
+                onDownload={
+                  shown === preview
+                    ? () => triggerDownload(shown.url, "storyboard.mp4")
+                    : undefined
+                }
+              />
+            ) : (
+              <div className="flex aspect-video items-center justify-center rounded-lg border border-gray-700 bg-gray-800/60 text-sm text-gray-500">
+                {assembling !== null ? (
+                  <span className="inline-flex items-center gap-2">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Joining shots {Math.round(assembling * 100)}%
+                  </span>
+                ) : (
+                  "The preview appears here once the shots are generated."
+                )}
+              </div>
+            )}
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {preview && showing && (
+                <button
+                  onClick={() => setShowing(null)}
+                  className="px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+                >
+                  Show preview
+                </button>
+              )}
+              {preview && onAddToTimeline && (
+                <button
+                  onClick={() => onAddToTimeline(preview.blob, "Storyboard")}
+                  className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+                >
+                  <ListVideo className="w-4 h-4" />
+                  Add to timeline
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-20 w-[min(100%,56rem)] px-4">
+        <div className="flex items-center justify-between gap-3 backdrop-blur-xl bg-gray-800/60 px-6 py-4 rounded-2xl shadow-lg border border-gray-700">
+          <ModelSelector
+            selectedModel={selectedModel}
+            setSelectedModel={setSelectedModel}
+            mode="storyboard"
+          />
+          <span className="text-sm text-gray-400">
+            {shots.length} {shots.length === 1 ? "shot" : "shots"}
+          </span>
+          {running ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold transition-colors"
+            >
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={generate}
+              disabled={!canGenerate}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors disabled:opacity-50"
+              title={canGenerate ? undefined : "Every shot needs a prompt"}
+            >
+              <Clapperboard className="w-4 h-4" />
+              Generate storyboard
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Storyboard;
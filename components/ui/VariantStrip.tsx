@@ -0,0 +1,66 @@
+import React from "react";
+import Image from "next/image";
+import { Download } from "lucide-react";
+
+interface VariantStripProps {
+  kind: "image" | "video";
+  /** Image data URLs or video object URLs, in the order the model returned them. */
+  sources: string[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  onDownloadAll: () => void;
+}
+
+/** Thumbnails of every candidate a generation returned. */
+const VariantStrip: React.FC<VariantStripProps> = ({
+  kind,
+  sources,
+  selectedIndex,
+  onSelect,
+  onDownloadAll,
+}) => (
+  <div className="flex items-center gap-3">
+    <div className="flex gap-2">
+      {sources.map((src, index) => (
+        <button
+          key={src}
+          onClick={() => onSelect(index)}
+          aria-pressed={index === selectedIndex}
+          className={`w-24 aspect-video overflow-hidden rounded-md border-2 transition-all ${
+            index === selectedIndex
+              ? "border-purple-500 shadow-md"
+              : "border-transparent opacity-70 hover:opacity-100"
+          }`}
+          title={`Variant ${index + 1}`}
+        >
+          {kind === "image" ? (
+            <Image
+              src={src}
+              alt={`Variant ${index + 1}`}
+              className="w-full h-full object-cover"
+              width={96}
+              height={54}
+            />
+          ) : (
+            <video
+              src={src}
+              muted
+              preload="metadata"
+              className="w-full h-full object-cover"
+            />
+          )}
+        </button>
+      ))}
+    </div>
+    <button
+      onClick={onDownloadAll}
+      className="inline-flex items-center gap-2 bg-gray-800/80 hover:bg-gray-700/90 border border-gray-700 text-gray-200 text-sm py-2 px-3 rounded-lg transition-colors"
+      title={`Download all ${sources.length} ${kind}s`}
+    >
+      <Download className="w-4 h-4" />
+      <span>All</span>
+    </button>
+  </div>
+);
+
+export default VariantStrip;
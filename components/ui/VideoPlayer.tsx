@@ -1,6 +1,12 @@
 "use client";
 
-import React, { useState, useRef, useCallback, useEffect } from "react";
+import React, {
+  useState,
+  useRef,
+  useCallback,
+  useEffect,
+  useMemo,
+} from "react";
 import Slider from "rc-slider";
 import {
   Play,
@@ -9,12 +15,32 @@ import {
   VolumeX,
   Scissors,
   Download,
+  Loader2,
+  Plus,
+  Minus,
+  Eye,
+  X,
 } from "lucide-react";
+import {
+  editedDuration,
+  keptSegments,
+  skipTarget,
+  toEditedTime,
+  toSourceTime,
+} from "@/lib/video/segments";
+import { EditRegion, ExportFormat, VideoRange } from "@/types/video";
+
+// About a frame; preview playback jumps this early to hide the cut
+const FRAME_SECONDS = 1 / 30;
 
 interface VideoPlayerProps {
   src: string;
-  // Called when a new output is produced (e.g., after trimming and exporting)
-  onOutputChanged?: (blob: Blob) => void;
+  // Called with the segments to keep; the parent exports them on the server
+  onCut?: (segments: VideoRange[], format: ExportFormat) => void;
+  // Fraction of the export done, or null when no export is running
+  cutProgress?: number | null;
+  // Whether `src` is already a cut of the original video
+  trimmed?: boolean;
   onDownload?: () => void;
   onResetTrim?: () => void;
 }
@@ -35,7 +61,9 @@ const formatTime = (seconds: number) => {
 
 export default function VideoPlayer({
   src,
-  onOutputChanged,
+  onCut,
+  cutProgress = null,
+  trimmed = false,
   onDownload,
   onResetTrim,
 }: VideoPlayerProps) {
@@ -47,19 +75,29 @@ export default function VideoPlayer({
   const [duration, setDuration] = useState(0);
   const [seeking, setSeeking] = useState(false);
   const [trimRange, setTrimRange] = useState<[number, number]>([0, 0]);
-  const [isTrimmed, setIsTrimmed] = useState(false);
-  const [effectiveDuration, setEffectiveDuration] = useState(0);
-  const [effectiveStartTime, setEffectiveStartTime] = useState(0);
+  // Keep and remove regions marked from the selection in `trimRange`
+  const [regions, setRegions] = useState<EditRegion[]>([]);
+  // Whether playback skips what the edit removes
+  const [previewing, setPreviewing] = useState(false);
   const [showTrimBar, setShowTrimBar] = useState(false);
-  const [isRecording, setIsRecording] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("mp4");
+  const exporting = cutProgress !== null;
+
+  // Without regions the edit keeps just the selection
+  const segments = useMemo(() => {
+    const [start, end] = trimRange;
+    const selection: EditRegion = { id: "selection", kind: "keep", start, end };
+    return keptSegments(regions.length > 0 ? regions : [selection], duration);
+  }, [regions, duration, trimRange]);
+  const applied = previewing ? segments : null;
+  const hasEdits = previewing || regions.length > 0 || trimmed;
 
   // Reset trim UI when the source changes
   useEffect(() => {
-    setIsTrimmed(false);
+    setPreviewing(false);
+    setRegions([]);
     setTrimRange([0, 0]);
     setDuration(0);
-    setEffectiveDuration(0);
-    setEffectiveStartTime(0);
     setPlayed(0);
     setSeeking(false);
     try {
@@ -75,6 +113,29 @@ export default function VideoPlayer({
     }
   }, [muted, volume]);
 
+  // Exact seeks: keyframe-snapping `fastSeek` could land inside a gap
+  const seekTo = (time: number) => {
+    if (playerRef.current) {
+      playerRef.current.currentTime = time;
+    }
+  };
+
+  // timeupdate fires too rarely to catch a segment end, so check every frame
+  useEffect(() => {
+    if (!applied || !playing) return;
+    let frame = 0;
+    const tick = () => {
+      const video = playerRef.current;
+      const target = video
+        ? skipTarget(applied, video.currentTime, FRAME_SECONDS)
+        : null;
+      if (target !== null) seekTo(target);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [applied, playing]);
+
   const handlePlayPause = () => {
     if (!playerRef.current) return;
     setPlaying((p) => {
@@ -105,31 +166,10 @@ export default function VideoPlayer({
     const rawTotal = playerRef.current?.duration;
     const total = Number.isFinite(rawTotal) && rawTotal ? rawTotal : duration;
     if (!seeking) {
-      const denomRaw = isTrimmed ? effectiveDuration : total;
+      const denomRaw = applied ? editedDuration(applied) : total;
       const denom = Number.isFinite(denomRaw) && denomRaw > 0 ? denomRaw : 1;
-      const numerator = current - (isTrimmed ? effectiveStartTime : 0);
-      const fraction = Math.min(Math.max(numerator / denom, 0), 1);
-      setPlayed(fraction);
-      if (isTrimmed) {
-        const endTime = effectiveStartTime + effectiveDuration;
-        if (current >= endTime) {
-          if (isRecording) {
-            return;
-          }
-          const startTime = effectiveStartTime;
-          if (playerRef.current) {
-            if (typeof playerRef.current.fastSeek === "function") {
-              playerRef.current.fastSeek(startTime);
-            } else {
-              playerRef.current.currentTime = startTime;
-            }
-            try {
-              playerRef.current.play();
-            } catch {}
-          }
-          setPlayed(0);
-        }
-      }
+      const numerator = applied ? toEditedTime(applied, current) : current;
+      setPlayed(Math.min(Math.max(numerator / denom, 0), 1));
     }
   };
 
@@ -146,8 +186,6 @@ export default function VideoPlayer({
           Number.isFinite(fixed) && fixed > 0 ? fixed : video.currentTime || 0;
         setDuration(computed);
         setTrimRange([0, computed]);
-        setEffectiveDuration(computed);
-        setEffectiveStartTime(0);
         video.removeEventListener("seeked", onSeeked);
         try {
           if (typeof video.fastSeek === "function") {
@@ -166,8 +204,6 @@ export default function VideoPlayer({
     const d = raw;
     setDuration(d);
     setTrimRange([0, d]);
-    setEffectiveDuration(d);
-    setEffectiveStartTime(0);
   };
 
   const handleDurationChange = () => {
@@ -175,154 +211,50 @@ export default function VideoPlayer({
     if (Number.isFinite(d) && d && d !== Infinity) {
       setDuration(d);
       setTrimRange([0, d]);
-      setEffectiveDuration(d);
-      setEffectiveStartTime(0);
     }
   };
 
   const handleSeekChange = (value: number | number[]) => {
     const newPlayed = Array.isArray(value) ? value[0] : value;
     setPlayed(newPlayed);
-    const spanRaw = isTrimmed ? effectiveDuration : duration;
+    const spanRaw = applied ? editedDuration(applied) : duration;
     const span = Number.isFinite(spanRaw) && spanRaw > 0 ? spanRaw : 0;
-    const seekToTime = newPlayed * span + (isTrimmed ? effectiveStartTime : 0);
-    if (playerRef.current) {
-      if (typeof playerRef.current.fastSeek === "function") {
-        playerRef.current.fastSeek(seekToTime);
-      } else {
-        playerRef.current.currentTime = seekToTime;
-      }
-    }
+    const offset = newPlayed * span;
+    seekTo(applied ? toSourceTime(applied, offset) : offset);
   };
 
-  const recordSegment = useCallback(
-    async (startTime: number, endTime: number) => {
-      const video = playerRef.current;
-      if (!video || endTime <= startTime) return null;
-
-      // Ensure captureStream is available
-      try {
-        await video.play();
-        await new Promise((r) => setTimeout(r, 50));
-        video.pause();
-      } catch {}
-
-      const v = video as HTMLVideoElement & {
-        captureStream?(): MediaStream;
-        mozCaptureStream?(): MediaStream;
-      };
-      const stream: MediaStream | null =
-        v.captureStream?.() ?? v.mozCaptureStream?.() ?? null;
-      if (!stream) return null;
-
-      const mimeCandidates = [
-        "video/webm;codecs=vp9,opus",
-        "video/webm;codecs=vp8,opus",
-        "video/webm",
-      ];
-      let mimeType = "";
-      for (const m of mimeCandidates) {
-        if (
-          typeof MediaRecorder !== "undefined" &&
-          MediaRecorder.isTypeSupported(m)
-        ) {
-          mimeType = m;
-          break;
-        }
-      }
-
-      const chunks: BlobPart[] = [];
-      return await new Promise<Blob | null>((resolve) => {
-        let resolved = false;
-        const recorder = new MediaRecorder(
-          stream,
-          mimeType ? { mimeType } : undefined
-        );
-        recorder.ondataavailable = (e) => {
-          if (e.data && e.data.size > 0) chunks.push(e.data);
-        };
-        recorder.onstop = () => {
-          if (resolved) return;
-          resolved = true;
-          setIsRecording(false);
-          const type = recorder.mimeType || mimeType || "video/webm";
-          resolve(new Blob(chunks, { type }));
-        };
-        recorder.onerror = () => {
-          if (!resolved) {
-            setIsRecording(false);
-            resolve(null);
-          }
-        };
-
-        const onTick = () => {
-          const now = playerRef.current?.currentTime ?? 0;
-          if (now >= endTime) {
-            video.removeEventListener("timeupdate", onTick);
-            try {
-              recorder.stop();
-            } catch {}
-            try {
-              video.pause();
-            } catch {}
-          }
-        };
-        video.addEventListener("timeupdate", onTick);
-        if (typeof video.fastSeek === "function") {
-          video.fastSeek(startTime);
-        } else {
-          video.currentTime = startTime;
-        }
-        // Use a small timeslice so dataavailable fires periodically and final blob isn't empty.
-        try {
-          setIsRecording(true);
-          recorder.start(200);
-        } catch {
-          setIsRecording(true);
-          recorder.start();
-        }
-        video.play();
-      });
-    },
-    []
-  );
+  const addRegion = (kind: EditRegion["kind"]) => {
+    const [start, end] = trimRange;
+    if (end <= start) return;
+    setRegions((list) => [
+      ...list,
+      { id: crypto.randomUUID(), kind, start, end },
+    ]);
+    // Select everything again for the next region
+    setTrimRange([0, duration]);
+  };
 
-  const handleTrim = useCallback(async () => {
-    const startTime = trimRange[0];
-    const endTime = trimRange[1];
-    setEffectiveStartTime(startTime);
-    setEffectiveDuration(Math.max(endTime - startTime, 0));
-    setIsTrimmed(true);
-    setPlaying(false);
+  const removeRegion = (id: string) =>
+    setRegions((list) => list.filter((region) => region.id !== id));
 
-    if (playerRef.current) {
-      if (typeof playerRef.current.fastSeek === "function") {
-        playerRef.current.fastSeek(startTime);
-      } else {
-        playerRef.current.currentTime = startTime;
-      }
-    }
+  const startPreview = useCallback(() => {
+    setPreviewing(true);
+    if (segments.length > 0) seekTo(segments[0].start);
     setPlayed(0);
+  }, [segments]);
 
-    // Best-effort fallback recording to provide a quick preview blob
-    const blob = await recordSegment(startTime, endTime);
-    if (blob) {
-      onOutputChanged?.(blob);
-    }
-  }, [trimRange, onOutputChanged, recordSegment]);
+  const handleTrim = useCallback(() => {
+    if (segments.length === 0) return;
+    // The preview plays the edit until the exported file replaces it
+    startPreview();
+    onCut?.(segments, format);
+  }, [segments, startPreview, onCut, format]);
 
   const handleResetTrim = () => {
-    setIsTrimmed(false);
+    setPreviewing(false);
+    setRegions([]);
     setTrimRange([0, duration]);
-    setEffectiveDuration(duration);
-    setEffectiveStartTime(0);
-    if (playerRef.current) {
-      if (typeof playerRef.current.fastSeek === "function") {
-        playerRef.current.fastSeek(0);
-      } else {
-        playerRef.current.currentTime = 0;
-      }
-    }
+    seekTo(0);
     setPlayed(0);
     onResetTrim?.();
   };
@@ -333,7 +265,7 @@ export default function VideoPlayer({
     }
   };
 
-  const spanForDisplay = isTrimmed ? effectiveDuration : duration;
+  const spanForDisplay = applied ? editedDuration(applied) : duration;
   const safeDisplaySpan =
     Number.isFinite(spanForDisplay) && spanForDisplay > 0 ? spanForDisplay : 0;
   const currentDisplaySeconds = played * safeDisplaySpan;
@@ -349,32 +281,55 @@ export default function VideoPlayer({
           onTimeUpdate={handleTimeUpdate}
           onLoadedMetadata={handleLoadedMetadata}
           onDurationChange={handleDurationChange}
-          onPlay={() => {
-            if (isTrimmed) {
-              const currentTime = playerRef.current?.currentTime || 0;
-              const startTime = trimRange[0];
-              if (currentTime < startTime) {
-                if (typeof playerRef.current?.fastSeek === "function") {
-                  playerRef.current.fastSeek(startTime);
-                } else if (playerRef.current) {
-                  playerRef.current.currentTime = startTime;
-                }
-              }
+          onPlay={() => setPlaying(true)}
+          onEnded={() => {
+            // The last kept segment ran to the end of the source
+            if (applied && applied.length > 0) {
+              seekTo(applied[0].start);
+              playerRef.current?.play().catch(() => {});
             }
-            setPlaying(true);
           }}
           onPause={() => setPlaying(false)}
           playsInline
           controls={false}
           preload="metadata"
           key={src}
-          loop={!isTrimmed && !isRecording}
+          loop={!applied}
         />
 
         {/* Bottom overlay trim bar (toggleable) */}
         {showTrimBar && (
           <div className="absolute left-0 right-0 bottom-2 z-20 px-4">
-            <div className="backdrop-blur-sm bg-white/30 rounded-xl px-3 py-2">
+            <div className="backdrop-blur-sm bg-white/30 rounded-xl px-3 py-2 space-y-2">
+              {regions.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1.5">
+                  {regions.map((region) => (
+                    <span
+                      key={region.id}
+                      className={`inline-flex items-center gap-1 rounded-md pl-2 pr-1 py-0.5 text-xs text-white ${
+                        region.kind === "keep"
+                          ? "bg-emerald-600/80"
+                          : "bg-red-600/80"
+                      }`}
+                    >
+                      {region.kind === "keep" ? "Keep" : "Remove"}{" "}
+                      {formatTime(region.start)}–{formatTime(region.end)}
+                      <button
+                        onClick={() => removeRegion(region.id)}
+                        className="rounded hover:bg-black/20"
+                        title="Delete region"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                  <span className="ml-auto text-xs text-slate-800/90">
+                    {segments.length > 0
+                      ? `${formatTime(editedDuration(segments))} kept`
+                      : "Nothing kept"}
+                  </span>
+                </div>
+              )}
               <div className="flex items-center gap-3">
                 <span className="text-xs text-slate-800/90 min-w-8 text-center">
                   {formatTime(trimRange[0])}
@@ -398,6 +353,24 @@ export default function VideoPlayer({
                       height: 28,
                     }}
                   />
+                  {regions.map((region) => (
+                    <div
+                      key={region.id}
+                      className={`absolute top-0 pointer-events-none z-0 ${
+                        region.kind === "keep"
+                          ? "bg-emerald-400/50"
+                          : "bg-red-500/60"
+                      }`}
+                      style={{
+                        left: `${(region.start / (duration || 1)) * 100}%`,
+                        width: `${
+                          ((region.end - region.start) / (duration || 1)) * 100
+                        }%`,
+                        borderRadius: 4,
+                        height: 28,
+                      }}
+                    />
+                  ))}
                   <div className="relative z-10 w-full">
                     <Slider
                       range
@@ -428,16 +401,65 @@ export default function VideoPlayer({
                   {formatTime(trimRange[1])}
                 </span>
                 <div className="flex items-center gap-2 pl-1">
+                  <button
+                    onClick={() => addRegion("keep")}
+                    className="inline-flex items-center h-8 px-2 rounded-md bg-white/60 hover:bg-white/70 text-black cursor-pointer disabled:opacity-50"
+                    disabled={exporting || duration === 0}
+                    title="Keep the selection"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => addRegion("remove")}
+                    className="inline-flex items-center h-8 px-2 rounded-md bg-white/60 hover:bg-white/70 text-black cursor-pointer disabled:opacity-50"
+                    disabled={exporting || duration === 0}
+                    title="Remove the selection"
+                  >
+                    <Minus className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() =>
+                      previewing ? setPreviewing(false) : startPreview()
+                    }
+                    aria-pressed={previewing}
+                    className={`inline-flex items-center h-8 px-2 rounded-md cursor-pointer disabled:opacity-50 ${
+                      previewing
+                        ? "bg-black/60 hover:bg-black/70 text-white"
+                        : "bg-white/60 hover:bg-white/70 text-black"
+                    }`}
+                    disabled={exporting || segments.length === 0}
+                    title={previewing ? "Play everything" : "Preview the edit"}
+                  >
+                    <Eye className="w-4 h-4" />
+                  </button>
+                  <select
+                    value={format}
+                    onChange={(e) => setFormat(e.target.value as ExportFormat)}
+                    disabled={exporting}
+                    className="h-8 px-1 rounded-md bg-white/60 text-black text-xs outline-none"
+                    aria-label="Export format"
+                  >
+                    <option value="mp4">MP4</option>
+                    <option value="webm">WebM</option>
+                  </select>
                   <button
                     onClick={handleTrim}
-                    className="inline-flex items-center gap-1 h-8 px-3 rounded-md backdrop-blur-sm bg-black/60 hover:bg-black/70 text-white text-xs cursor-pointer"
+                    className="inline-flex items-center gap-1 h-8 px-3 rounded-md backdrop-blur-sm bg-black/60 hover:bg-black/70 text-white text-xs cursor-pointer disabled:cursor-wait"
+                    disabled={exporting || segments.length === 0}
                   >
-                    Cut
+                    {exporting ? (
+                      <>
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                        {Math.round(cutProgress * 100)}%
+                      </>
+                    ) : (
+                      "Cut"
+                    )}
                   </button>
                   <button
                     onClick={handleResetTrim}
                     className="inline-flex items-center gap-1 h-8 px-3 rounded-md backdrop-blur-sm bg-white/60 hover:bg-white/70 text-black text-xs cursor-pointer"
-                    disabled={!isTrimmed}
+                    disabled={exporting || !hasEdits}
                   >
                     Reset
                   </button>
@@ -504,24 +526,28 @@ export default function VideoPlayer({
                 }}
               />
             </div>
-            <button
-              onClick={() => setShowTrimBar((s) => !s)}
-              title={showTrimBar ? "Hide trimmer" : "Show trimmer"}
-              className={`ml-1 focus:outline-none hover:opacity-80 text-black`}
-            >
-              <Scissors
-                className={`w-5 h-5 transition-transform duration-150 ${
-                  showTrimBar ? "rotate-270" : "rotate-0"
-                }`}
-              />
-            </button>
-            <button
-              onClick={onDownload}
-              title="Download"
-              className="ml-1 focus:outline-none text-black hover:opacity-80"
-            >
-              <Download className="w-5 h-5" />
-            </button>
+            {onCut && (
+              <button
+                onClick={() => setShowTrimBar((s) => !s)}
+                title={showTrimBar ? "Hide trimmer" : "Show trimmer"}
+                className={`ml-1 focus:outline-none hover:opacity-80 text-black`}
+              >
+                <Scissors
+                  className={`w-5 h-5 transition-transform duration-150 ${
+                    showTrimBar ? "rotate-270" : "rotate-0"
+                  }`}
+                />
+              </button>
+            )}
+            {onDownload && (
+              <button
+                onClick={onDownload}
+                title="Download"
+                className="ml-1 focus:outline-none text-black hover:opacity-80"
+              >
+                <Download className="w-5 h-5" />
+              </button>
+            )}
           </div>
         </div>
       </div>
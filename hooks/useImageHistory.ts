@@ -0,0 +1,151 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import { GenerationMode } from "@/types/studio";
+
+/** One generated image and what produced it. */
+export interface ImageNode {
+  id: string;
+  /** The image this one was made from; null for the first of a line. */
+  parentId: string | null;
+  /** Data URL. */
+  image: string;
+  prompt: string;
+  model: string;
+  mode: GenerationMode;
+  createdAt: number;
+}
+
+/** Key of the original image, before any node, in `lastChild`. */
+const ORIGINAL = "";
+
+export interface ImageHistory {
+  nodes: ImageNode[];
+  /** Null while the original (uploaded or empty) image is shown. */
+  current: ImageNode | null;
+  /** The node the current one was made from. */
+  parent: ImageNode | null;
+  /** Ids from the first ancestor down to the current node. */
+  currentPath: Set<string>;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Adds a child of the current node and makes it current. */
+  record: (entry: Omit<ImageNode, "id" | "parentId" | "createdAt">) => void;
+  /** Swaps the current node's image, e.g. for another candidate. */
+  replaceImage: (image: string) => void;
+  /** Each navigation resolves to the node to show, null for the original. */
+  select: (id: string | null) => ImageNode | null;
+  undo: () => ImageNode | null;
+  redo: () => ImageNode | null;
+  clear: () => void;
+}
+
+/**
+ * Keeps every generated image as a tree. Editing from an earlier node starts
+ * a new branch; undo walks to the parent and redo back down the branch that
+ * was last visited.
+ */
+export function useImageHistory(): ImageHistory {
+  const [nodes, setNodes] = useState<ImageNode[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  // The child last visited from each node, which redo returns to
+  const [lastChild, setLastChild] = useState<Record<string, string>>({});
+
+  const byId = useMemo(
+    () => new Map(nodes.map((node) => [node.id, node])),
+    [nodes]
+  );
+  const current = currentId ? byId.get(currentId) ?? null : null;
+
+  const parentOf = useCallback(
+    (node: ImageNode) =>
+      node.parentId ? byId.get(node.parentId) ?? null : null,
+    [byId]
+  );
+
+  const currentPath = useMemo(() => {
+    const path = new Set<string>();
+    for (let node = current; node; node = parentOf(node)) path.add(node.id);
+    return path;
+  }, [current, parentOf]);
+
+  const redoTarget = lastChild[currentId ?? ORIGINAL];
+
+  const goTo = useCallback(
+    (node: ImageNode | null) => {
+      setCurrentId(node?.id ?? null);
+      // Remember the way down so redo can retrace it
+      const trail: Record<string, string> = {};
+      for (let child = node; child; child = parentOf(child)) {
+        trail[child.parentId ?? ORIGINAL] = child.id;
+      }
+      setLastChild((map) => ({ ...map, ...trail }));
+      return node;
+    },
+    [parentOf]
+  );
+
+  const record = useCallback<ImageHistory["record"]>(
+    (entry) => {
+      const node: ImageNode = {
+        ...entry,
+        id: crypto.randomUUID(),
+        parentId: currentId,
+        createdAt: Date.now(),
+      };
+      setNodes((list) => [...list, node]);
+      setCurrentId(node.id);
+      setLastChild((map) => ({ ...map, [currentId ?? ORIGINAL]: node.id }));
+    },
+    [currentId]
+  );
+
+  const replaceImage = useCallback(
+    (image: string) => {
+      if (!currentId) return;
+      setNodes((list) =>
+        list.map((node) => (node.id === currentId ? { ...node, image } : node))
+      );
+    },
+    [currentId]
+  );
+
+  const select = useCallback(
+    (id: string | null) => goTo(id ? byId.get(id) ?? null : null),
+    [byId, goTo]
+  );
+
+  const undo = useCallback(() => {
+    if (!current) return null;
+    setCurrentId(current.parentId);
+    return parentOf(current);
+  }, [current, parentOf]);
+
+  const redo = useCallback(() => {
+    const next = redoTarget ? byId.get(redoTarget) ?? null : null;
+    if (!next) return current;
+    setCurrentId(next.id);
+    return next;
+  }, [redoTarget, byId, current]);
+
+  const clear = useCallback(() => {
+    setNodes([]);
+    setCurrentId(null);
+    setLastChild({});
+  }, []);
+
+  return {
+    nodes,
+    current,
+    parent: current ? parentOf(current) : null,
+    currentPath,
+    canUndo: current !== null,
+    canRedo: !!redoTarget && byId.has(redoTarget),
+    record,
+    replaceImage,
+    select,
+    undo,
+    redo,
+    clear,
+  };
+}
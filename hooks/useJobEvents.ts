@@ -0,0 +1,60 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Job, JobEvent } from "@/types/jobs";
+
+export interface JobEventsState {
+  job: Job | null;
+  elapsedMs: number;
+  videoUrls: string[];
+  /** Set when the stream could not be opened or broke off for good. */
+  error: string | null;
+}
+
+const IDLE: JobEventsState = {
+  job: null,
+  elapsedMs: 0,
+  videoUrls: [],
+  error: null,
+};
+
+/**
+ * Subscribes to `/api/jobs/:id/events` while `jobId` is set.
+ */
+export function useJobEvents(jobId: string | null): JobEventsState {
+  // Tagged with the job it belongs to, so a stale stream never leaks into the
+  // next job's state.
+  const [state, setState] = useState<JobEventsState & { jobId: string | null }>(
+    { ...IDLE, jobId: null }
+  );
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+    const onEvent = (e: MessageEvent<string>) => {
+      const data = JSON.parse(e.data) as JobEvent;
+      setState({ ...data, error: null, jobId });
+    };
+
+    source.addEventListener("progress", onEvent);
+    source.addEventListener("done", (e) => {
+      onEvent(e);
+      source.close();
+    });
+    source.onerror = () => {
+      // EventSource retries on its own unless the connection was refused.
+      if (source.readyState === EventSource.CLOSED) {
+        setState((s) => ({
+          ...(s.jobId === jobId ? s : IDLE),
+          error: "Lost connection to job updates",
+          jobId,
+        }));
+      }
+    };
+
+    return () => source.close();
+  }, [jobId]);
+
+  return state.jobId === jobId ? state : IDLE;
+}
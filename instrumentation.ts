@@ -0,0 +1,7 @@
+export async function register() {
+  // Resume polling jobs left running by a previous server process.
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { ensureJobWorker } = await import("./lib/jobs/worker");
+    ensureJobWorker();
+  }
+}
@@ -0,0 +1,94 @@
+import { GenerationError } from "@/lib/errors";
+import { ErrorCode } from "@/types/errors";
+import { DownloadError } from "./types";
+
+export { GenerationError } from "@/lib/errors";
+
+const MESSAGES: Record<Exclude<ErrorCode, "UNKNOWN">, string> = {
+  QUOTA_EXCEEDED: "Quota exceeded",
+  SAFETY_BLOCKED: "Blocked by safety filters",
+  TIER_REQUIRED: "This model requires a paid tier API key",
+  INVALID_INPUT: "The request was rejected as invalid",
+  UPSTREAM_TIMEOUT: "The model took too long to respond",
+  NO_OUTPUT: "The model returned no output",
+};
+
+/** Long-running operation error codes, from google.rpc.Code. */
+const RPC_CODES: Record<number, ErrorCode> = {
+  3: "INVALID_INPUT",
+  4: "UPSTREAM_TIMEOUT",
+  7: "TIER_REQUIRED",
+  8: "QUOTA_EXCEEDED",
+};
+
+function codeFor(status: number | undefined, text: string): ErrorCode {
+  if (/safety|blocked|responsible ai|prohibited/i.test(text)) {
+    return "SAFETY_BLOCKED";
+  }
+  if (status === 429 || /quota|RESOURCE_EXHAUSTED|rate limit/i.test(text)) {
+    return "QUOTA_EXCEEDED";
+  }
+  if (/paid tier|billing|allowlist|not available for your/i.test(text)) {
+    return "TIER_REQUIRED";
+  }
+  if (
+    status === 408 ||
+    status === 504 ||
+    /DEADLINE_EXCEEDED|timed? ?out|TimeoutError/i.test(text)
+  ) {
+    return "UPSTREAM_TIMEOUT";
+  }
+  if (status === 403 || /PERMISSION_DENIED/.test(text)) {
+    return "TIER_REQUIRED";
+  }
+  if (status === 400 || /INVALID_ARGUMENT/.test(text)) {
+    return "INVALID_INPUT";
+  }
+  return "UNKNOWN";
+}
+
+/**
+ * Maps whatever a provider threw (SDK `ApiError`, `DownloadError`, timeouts)
+ * onto a stable code. `fallback` is the message for unrecognised failures.
+ */
+export function classifyProviderError(
+  error: unknown,
+  fallback = "Generation failed"
+): GenerationError {
+  if (error instanceof GenerationError) return error;
+
+  const status =
+    typeof (error as { status?: unknown })?.status === "number"
+      ? (error as { status: number }).status
+      : undefined;
+  const details =
+    error instanceof DownloadError && error.details
+      ? `${error.message}: ${error.details}`
+      : error instanceof Error
+      ? error.message
+      : String(error);
+  const text = `${error instanceof Error ? error.name : ""} ${details}`;
+
+  const code = codeFor(status, text);
+  return new GenerationError(
+    code,
+    code === "UNKNOWN" ? fallback : MESSAGES[code],
+    details
+  );
+}
+
+/** Same as `classifyProviderError` for the `error` of a finished operation. */
+export function classifyOperationError(error: {
+  code?: unknown;
+  message?: unknown;
+}): GenerationError {
+  const details = String(error.message ?? "Upstream operation failed");
+  const code =
+    (typeof error.code === "number" && RPC_CODES[error.code]) ||
+    codeFor(undefined, details);
+  return new GenerationError(
+    code,
+    code === "UNKNOWN" ? details : MESSAGES[code],
+    details
+  );
+}
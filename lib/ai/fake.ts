@@ -0,0 +1,136 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { AIProvider, DownloadError, InlineImage } from "./types";
+
+/**
+ * Number of polls a simulated video operation takes to complete; the ones
+ * before the last answer "pending".
+ */
+const FAKE_VIDEO_POLLS = 3;
+const FAKE_LATENCY_MS = 800;
+const FAKE_VIDEO_URI_PREFIX = "fake://videos/";
+
+const FIXTURES_DIR = path.join(process.cwd(), "lib", "ai", "fixtures");
+
+// Kept on globalThis so every route bundle (and dev hot reloads) see the same
+// simulated operations.
+const globalForFake = globalThis as unknown as {
+  fakeVideoPolls?: Map<string, number>;
+  fakeVideoCancelled?: Set<string>;
+  fakeVideoCounts?: Map<string, number>;
+};
+const operationPolls = (globalForFake.fakeVideoPolls ??= new Map());
+const cancelledOperations = (globalForFake.fakeVideoCancelled ??= new Set());
+const videoCounts = (globalForFake.fakeVideoCounts ??= new Map());
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function readFixtureImage(file: string): Promise<InlineImage> {
+  const buf = await readFile(path.join(FIXTURES_DIR, file));
+  return { imageBytes: buf.toString("base64"), mimeType: "image/png" };
+}
+
+/**
+ * Offline provider that answers with bundled fixtures, for CI and for local
+ * development without a Gemini key or network access.
+ */
+export function createFakeProvider(): AIProvider {
+  return {
+    async checkKey() {},
+
+    async generateImage({ numberOfImages = 1 }) {
+      await delay(FAKE_LATENCY_MS);
+      const image = await readFixtureImage("image.png");
+      return Array.from({ length: numberOfImages }, () => image);
+    },
+
+    async editImage({ prompt, history = [] }) {
+      await delay(FAKE_LATENCY_MS);
+      const turn = history.filter((t) => t.role === "user").length + 1;
+      return {
+        images: [await readFixtureImage("edit.png")],
+        text: `Turn ${turn}: applied "${prompt}".`,
+      };
+    },
+
+    async generateText({ prompt, images = [] }) {
+      await delay(FAKE_LATENCY_MS);
+      const subject =
+        images.length > 0
+          ? "A lone oak on a grassy hill under a wide sky"
+          : prompt.replace(/[.\s]+$/, "");
+      return (
+        `${subject}, seen in a slow dolly-in at golden ` +
+        "hour with soft rim light and a shallow depth of field. Audio: a " +
+        "gentle breeze and distant birdsong."
+      );
+    },
+
+    async startVideo({ numberOfVideos = 1 }) {
+      const name = `operations/fake-${crypto.randomUUID()}`;
+      operationPolls.set(name, 0);
+      videoCounts.set(name, numberOfVideos);
+      return name;
+    },
+
+    async pollVideo(name) {
+      if (cancelledOperations.has(name)) {
+        return {
+          name,
+          done: true,
+          error: { code: 1, message: "Operation cancelled" },
+        };
+      }
+
+      const polls = (operationPolls.get(name) ?? 0) + 1;
+      operationPolls.set(name, polls);
+
+      if (polls < FAKE_VIDEO_POLLS) {
+        return {
+          name,
+          done: false,
+          metadata: {
+            progressPercent: Math.round((polls / FAKE_VIDEO_POLLS) * 100),
+          },
+        };
+      }
+
+      const id = name.split("/").pop();
+      return {
+        name,
+        done: true,
+        response: {
+          generatedVideos: Array.from(
+            { length: videoCounts.get(name) ?? 1 },
+            (_, i) => ({
+              video: {
+                uri: `${FAKE_VIDEO_URI_PREFIX}${id}-${i}.mp4`,
+                mimeType: "video/mp4",
+              },
+            })
+          ),
+        },
+      };
+    },
+
+    async cancelVideo(name) {
+      cancelledOperations.add(name);
+      return true;
+    },
+
+    async downloadVideo(uri) {
+      if (!uri.startsWith(FAKE_VIDEO_URI_PREFIX)) {
+        throw new DownloadError(
+          "Upstream download failed: 404 Not Found",
+          404,
+          `Unknown fake video ${uri}`
+        );
+      }
+      const buf = await readFile(path.join(FIXTURES_DIR, "video.mp4"));
+      return {
+        body: new Uint8Array(buf).buffer,
+        contentType: "video/mp4",
+      };
+    },
+  };
+}
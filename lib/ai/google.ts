@@ -0,0 +1,297 @@
+import {
+  GoogleGenAI,
+  PersonGeneration,
+  type GenerateContentResponse,
+} from "@google/genai";
+import { getModel } from "@/lib/models";
+import { GenerationError } from "./errors";
+import {
+  AIProvider,
+  ChatTurn,
+  DownloadError,
+  EditImageResult,
+  InlineImage,
+} from "./types";
+
+const GEMINI_API_BASE = "https://generativelanguage.googleapis.com/v1beta";
+
+/** Hosts a generated video may be served from once its download redirects. */
+const VIDEO_FILE_HOSTS = /(^|\.)(googleapis|googleusercontent)\.com$/;
+
+/**
+ * Parses a URL that may be fetched for a video download, rejecting anything
+ * but HTTPS on the given hosts.
+ */
+function downloadUrl(uri: string, hosts: RegExp | string): URL {
+  let url: URL | null = null;
+  try {
+    url = new URL(uri);
+  } catch {
+    // Reported below
+  }
+  const allowed =
+    typeof hosts === "string"
+      ? url?.hostname === hosts
+      : hosts.test(url?.hostname ?? "");
+  if (!url || url.protocol !== "https:" || !allowed) {
+    throw new GenerationError(
+      "INVALID_INPUT",
+      "Not a generated video URI",
+      uri
+    );
+  }
+  return url;
+}
+
+/** Candidate finish reasons that mean the output was withheld for safety. */
+const SAFETY_FINISH_REASONS = [
+  "SAFETY",
+  "IMAGE_SAFETY",
+  "PROHIBITED_CONTENT",
+  "BLOCKLIST",
+  "SPII",
+];
+
+/** Gemini takes no mask parameter, so the mask is explained in the prompt. */
+const maskedEditPrompt = (prompt: string, maskMode = "inpaint") =>
+  maskMode === "outpaint"
+    ? "The second image is a mask for the first. The white area of the mask " +
+      "is empty canvas around the original picture. Fill it by extending the " +
+      "scene seamlessly, matching perspective, lighting and style, and keep " +
+      "the black area exactly as it is. Return the full image at the same " +
+      `size and framing.\n\nScene guidance: ${prompt}`
+    : "The second image is a mask for the first. Apply the following edit " +
+      "only inside the white area of the mask and leave everything in the " +
+      "black area exactly as it is. Return the full image at the same " +
+      `framing.\n\nEdit: ${prompt}`;
+
+const toParts = (text: string | undefined, images: InlineImage[]) => [
+  ...(text ? [{ text }] : []),
+  ...images.map((image) => ({
+    inlineData: { mimeType: image.mimeType, data: image.imageBytes },
+  })),
+];
+
+/**
+ * Collects the inline images and text of a Gemini `generateContent` response.
+ * Throws SAFETY_BLOCKED when the prompt or the output was filtered.
+ */
+function extractOutput(response: GenerateContentResponse): EditImageResult {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new GenerationError(
+      "SAFETY_BLOCKED",
+      "The prompt was blocked by safety filters",
+      response.promptFeedback?.blockReasonMessage || blockReason
+    );
+  }
+  const candidate = response.candidates?.[0];
+  if (
+    candidate?.finishReason &&
+    SAFETY_FINISH_REASONS.includes(candidate.finishReason)
+  ) {
+    throw new GenerationError(
+      "SAFETY_BLOCKED",
+      "The image was blocked by safety filters",
+      candidate.finishMessage || candidate.finishReason
+    );
+  }
+
+  const images: InlineImage[] = [];
+  const text: string[] = [];
+  for (const part of candidate?.content?.parts ?? []) {
+    if (part.text && !part.thought) {
+      text.push(part.text);
+    } else if (part.inlineData?.data) {
+      images.push({
+        imageBytes: part.inlineData.data,
+        mimeType: part.inlineData.mimeType || "image/png",
+      });
+    }
+  }
+  return { images, text: text.join("").trim() || undefined };
+}
+
+/**
+ * Provider backed by the Gemini API through `@google/genai`.
+ */
+export function createGoogleProvider(apiKey: string): AIProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    async checkKey() {
+      await ai.models.get({ model: "gemini-2.5-flash" });
+    },
+
+    async generateImage({
+      model,
+      prompt,
+      aspectRatio,
+      seed,
+      numberOfImages,
+      personGeneration,
+      signal,
+    }) {
+      if (getModel(model)?.provider === "imagen") {
+        const resp = await ai.models.generateImages({
+          model,
+          prompt,
+          config: {
+            aspectRatio: aspectRatio || "16:9",
+            numberOfImages,
+            personGeneration: personGeneration?.toUpperCase() as
+              | PersonGeneration
+              | undefined,
+            abortSignal: signal,
+          },
+        });
+        const generated = resp.generatedImages ?? [];
+        const images: InlineImage[] = [];
+        for (const { image } of generated) {
+          if (image?.imageBytes) {
+            images.push({
+              imageBytes: image.imageBytes,
+              mimeType: image.mimeType || "image/png",
+            });
+          }
+        }
+        // Filtered candidates are dropped; only fail when none survived.
+        const filtered = generated.find((g) => g.raiFilteredReason);
+        if (images.length === 0 && filtered) {
+          throw new GenerationError(
+            "SAFETY_BLOCKED",
+            "The image was blocked by safety filters",
+            filtered.raiFilteredReason
+          );
+        }
+        return images;
+      }
+
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: { seed, abortSignal: signal },
+      });
+      return extractOutput(response).images;
+    },
+
+    async editImage({
+      model,
+      prompt,
+      images,
+      mask,
+      maskMode,
+      history = [],
+      seed,
+      signal,
+    }) {
+      const turns: ChatTurn[] = [
+        ...history,
+        mask
+          ? {
+              role: "user",
+              text: maskedEditPrompt(prompt, maskMode),
+              images: [...images, mask],
+            }
+          : { role: "user", text: prompt, images },
+      ];
+      const response = await ai.models.generateContent({
+        model,
+        contents: turns.map((turn) => ({
+          role: turn.role,
+          parts: toParts(turn.text, turn.images),
+        })),
+        config: { seed, abortSignal: signal },
+      });
+      return extractOutput(response);
+    },
+
+    async generateText({ model, instructions, prompt, images = [], signal }) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: [{ role: "user", parts: toParts(prompt, images) }],
+        config: { systemInstruction: instructions, abortSignal: signal },
+      });
+      return extractOutput(response).text ?? "";
+    },
+
+    async startVideo({ model, prompt, image, ...options }) {
+      const operation = await ai.models.generateVideos({
+        model,
+        prompt,
+        ...(image ? { image } : {}),
+        config: {
+          aspectRatio: options.aspectRatio,
+          negativePrompt: options.negativePrompt,
+          seed: options.seed,
+          numberOfVideos: options.numberOfVideos,
+          personGeneration: options.personGeneration,
+          resolution: options.resolution,
+          durationSeconds: options.durationSeconds,
+        },
+      });
+      return operation.name as string;
+    },
+
+    async pollVideo(name) {
+      // Some SDK versions accept just the name, others expect an operation object.
+      // We'll pass the minimal required shape with a name.
+      const fresh = await ai.operations.getVideosOperation({
+        operation: { name },
+      });
+      return { ...fresh, name, done: !!fresh.done };
+    },
+
+    async cancelVideo(name) {
+      // The SDK has no cancel call; use the long-running operations endpoint.
+      const resp = await fetch(`${GEMINI_API_BASE}/${name}:cancel`, {
+        method: "POST",
+        headers: { "x-goog-api-key": apiKey },
+      });
+      if (!resp.ok) {
+        console.warn(
+          `Upstream cancel for ${name} refused: ${resp.status} ${resp.statusText}`
+        );
+      }
+      return resp.ok;
+    },
+
+    async downloadVideo(uri) {
+      // The key is only ever sent to the Gemini API itself
+      const url = downloadUrl(uri, new URL(GEMINI_API_BASE).hostname);
+      let resp = await fetch(url, {
+        headers: {
+          "x-goog-api-key": apiKey,
+          Accept: "*/*",
+        },
+        redirect: "manual",
+      });
+      // It answers with a redirect to the file, which needs no key
+      const location = resp.headers.get("location");
+      if (resp.status >= 300 && resp.status < 400 && location) {
+        const target = downloadUrl(
+          new URL(location, url).toString(),
+          VIDEO_FILE_HOSTS
+        );
+        resp = await fetch(target, {
+          headers: { Accept: "*/*" },
+          redirect: "error",
+        });
+      }
+
+      if (!resp.ok) {
+        const text = await resp.text().catch(() => "");
+        throw new DownloadError(
+          `Upstream download failed: ${resp.status} ${resp.statusText}`,
+          resp.status,
+          text
+        );
+      }
+
+      return {
+        body: resp.body ?? (await resp.arrayBuffer()),
+        contentType: resp.headers.get("content-type") || "video/mp4",
+      };
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { createFakeProvider } from "./fake";
+import { createGoogleProvider } from "./google";
+import { AIProvider } from "./types";
+
+export * from "./errors";
+export * from "./types";
+
+let provider: AIProvider | null = null;
+
+/**
+ * Returns the provider shared by all API routes, creating it on first use so a
+ * missing key fails the request instead of the module import.
+ * Set `AI_PROVIDER=fake` to serve bundled fixtures without network access.
+ * A caller's own `apiKey` gets a provider of its own instead of the shared one.
+ */
+export function getProvider(apiKey?: string): AIProvider {
+  if (!provider && process.env.AI_PROVIDER === "fake") {
+    provider = createFakeProvider();
+  }
+  if (apiKey && process.env.AI_PROVIDER !== "fake") {
+    return createGoogleProvider(apiKey);
+  }
+  if (!provider) {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY environment variable is not set.");
+    }
+    provider = createGoogleProvider(apiKey);
+  }
+  return provider;
+}
+
+/** Overrides the shared provider, e.g. with a fake. Pass null to reset. */
+export function setProvider(next: AIProvider | null) {
+  provider = next;
+}
@@ -0,0 +1,131 @@
+/**
+ * Backend-agnostic contract for the generative operations used by the API routes.
+ * Routes only talk to an `AIProvider`, so the backend can be swapped or faked.
+ */
+
+/** Base64-encoded image as exchanged with the upstream models. */
+export interface InlineImage {
+  imageBytes: string;
+  mimeType: string;
+}
+
+export interface GenerateImageParams {
+  model: string;
+  prompt: string;
+  aspectRatio?: string;
+  seed?: number;
+  numberOfImages?: number;
+  /** "dont_allow", "allow_adult" or "allow_all". */
+  personGeneration?: string;
+  /** Aborts the upstream request, e.g. when the client goes away. */
+  signal?: AbortSignal;
+}
+
+export interface GenerateTextParams {
+  model: string;
+  /** System instructions: what to write and how. */
+  instructions: string;
+  prompt: string;
+  images?: InlineImage[];
+  signal?: AbortSignal;
+}
+
+/** One message of a multi-turn edit conversation. */
+export interface ChatTurn {
+  role: "user" | "model";
+  text?: string;
+  images: InlineImage[];
+}
+
+export interface EditImageParams {
+  model: string;
+  prompt: string;
+  images: InlineImage[];
+  /**
+   * Black-and-white mask of the single input image; only the white region
+   * should change.
+   */
+  mask?: InlineImage;
+  /** Whether the mask marks pixels to change or empty canvas to fill. */
+  maskMode?: "inpaint" | "outpaint";
+  /** Earlier turns of the conversation, oldest first. */
+  history?: ChatTurn[];
+  seed?: number;
+  signal?: AbortSignal;
+}
+
+export interface EditImageResult {
+  images: InlineImage[];
+  /** Text the model replied with alongside the images, if any. */
+  text?: string;
+}
+
+export interface StartVideoParams {
+  model: string;
+  prompt: string;
+  image?: InlineImage;
+  negativePrompt?: string;
+  aspectRatio?: string;
+  seed?: number;
+  numberOfVideos?: number;
+  personGeneration?: string;
+  /** "720p" or "1080p". */
+  resolution?: string;
+  durationSeconds?: number;
+}
+
+export interface GeneratedVideo {
+  video?: {
+    uri?: string;
+    mimeType?: string;
+  };
+}
+
+/** Snapshot of a long-running video generation. */
+export interface VideoOperation {
+  name: string;
+  done: boolean;
+  metadata?: Record<string, unknown>;
+  error?: Record<string, unknown>;
+  response?: {
+    generatedVideos?: GeneratedVideo[];
+    /** Why upstream safety filters dropped videos, when they did. */
+    raiMediaFilteredReasons?: string[];
+  };
+}
+
+export interface DownloadedVideo {
+  body: ReadableStream<Uint8Array> | ArrayBuffer;
+  contentType: string;
+}
+
+/** Raised when the upstream file server refuses a video download. */
+export class DownloadError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly details: string
+  ) {
+    super(message);
+    this.name = "DownloadError";
+  }
+}
+
+export interface AIProvider {
+  /** Makes a cheap authenticated call; rejects when the key is not usable. */
+  checkKey(): Promise<void>;
+  /** Every candidate image; empty when the model answered without one. */
+  generateImage(params: GenerateImageParams): Promise<InlineImage[]>;
+  editImage(params: EditImageParams): Promise<EditImageResult>;
+  /** The model's text answer; empty when it gave none. */
+  generateText(params: GenerateTextParams): Promise<string>;
+  /** Starts a video generation and returns the upstream operation name. */
+  startVideo(params: StartVideoParams): Promise<string>;
+  pollVideo(name: string): Promise<VideoOperation>;
+  /**
+   * Asks upstream to stop a video generation. Resolves to false when the
+   * backend has no way to cancel it.
+   */
+  cancelVideo(name: string): Promise<boolean>;
+  downloadVideo(uri: string): Promise<DownloadedVideo>;
+}
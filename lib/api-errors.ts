@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { classifyProviderError } from "@/lib/ai";
+import { ERROR_STATUS, invalidFieldsError } from "@/lib/errors";
+import { FieldIssue } from "@/types/errors";
+
+/**
+ * Answers with the coded error body and the status matching its code.
+ * `fallback` is the message used for failures that cannot be classified.
+ */
+export function errorResponse(error: unknown, fallback?: string) {
+  const classified = classifyProviderError(error, fallback);
+  return NextResponse.json(classified.toJSON(), {
+    status: ERROR_STATUS[classified.code],
+  });
+}
+
+/** 400 response listing the fields that failed schema validation. */
+export function invalidFields(fields: FieldIssue[]) {
+  return errorResponse(invalidFieldsError(fields));
+}
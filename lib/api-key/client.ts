@@ -0,0 +1,33 @@
+import { errorFromResponse } from "@/lib/errors";
+import { ApiKeyStatus } from "@/types/api-key";
+
+/** Browser-side helpers for `/api/settings/api-key`. */
+
+async function request(init?: RequestInit): Promise<ApiKeyStatus> {
+  const resp = await fetch("/api/settings/api-key", {
+    cache: "no-store",
+    ...init,
+  });
+  const json = await resp.json();
+  if (!resp.ok) {
+    throw errorFromResponse(json, resp.status);
+  }
+  return json as ApiKeyStatus;
+}
+
+export function fetchApiKeyStatus(): Promise<ApiKeyStatus> {
+  return request();
+}
+
+/** Validates the key server-side before it is stored. */
+export function saveApiKey(apiKey: string): Promise<ApiKeyStatus> {
+  return request({
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ apiKey }),
+  });
+}
+
+export function removeApiKey(): Promise<ApiKeyStatus> {
+  return request({ method: "DELETE" });
+}
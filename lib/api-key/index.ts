@@ -0,0 +1,101 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+import { cookies } from "next/headers";
+import { ApiKeyStatus, KeySource } from "@/types/api-key";
+
+export const API_KEY_COOKIE = "gemini_api_key";
+const COOKIE_MAX_AGE_S = 60 * 60 * 24 * 30;
+
+const globalForApiKey = globalThis as unknown as {
+  apiKeyCookieSecret?: Buffer;
+};
+
+/**
+ * AES key for the cookie. Without `API_KEY_COOKIE_SECRET` a random one is
+ * made per process, so saved keys have to be re-entered after a restart.
+ */
+function cookieSecret(): Buffer {
+  const configured = process.env.API_KEY_COOKIE_SECRET;
+  if (configured) {
+    return createHash("sha256").update(configured).digest();
+  }
+  if (!globalForApiKey.apiKeyCookieSecret) {
+    console.warn(
+      "API_KEY_COOKIE_SECRET is not set; personal API keys will not survive a server restart."
+    );
+    globalForApiKey.apiKeyCookieSecret = randomBytes(32);
+  }
+  return globalForApiKey.apiKeyCookieSecret;
+}
+
+/** Seals a key with AES-256-GCM as `iv.tag.ciphertext` in base64url. */
+export function encryptApiKey(apiKey: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", cookieSecret(), iv);
+  const data = Buffer.concat([cipher.update(apiKey, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data]
+    .map((part) => part.toString("base64url"))
+    .join(".");
+}
+
+/** Resolves to null for tampered tokens or ones sealed with another secret. */
+export function decryptApiKey(token: string): string | null {
+  const [iv, tag, data] = token
+    .split(".")
+    .map((part) => Buffer.from(part, "base64url"));
+  if (!iv || !tag || !data) return null;
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", cookieSecret(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString(
+      "utf8"
+    );
+  } catch {
+    return null;
+  }
+}
+
+export function maskApiKey(apiKey: string): string {
+  return `…${apiKey.slice(-4)}`;
+}
+
+export interface ResolvedApiKey {
+  /** Unset when the server key applies; the provider falls back to it. */
+  apiKey?: string;
+  source: KeySource;
+}
+
+/** The caller's personal key from its cookie, else the server key. */
+export async function resolveApiKey(): Promise<ResolvedApiKey> {
+  const token = (await cookies()).get(API_KEY_COOKIE)?.value;
+  const apiKey = token ? decryptApiKey(token) : null;
+  return apiKey ? { apiKey, source: "personal" } : { source: "server" };
+}
+
+/** Status to report for the given personal key, or for none. */
+export function apiKeyStatus(apiKey?: string): ApiKeyStatus {
+  return {
+    source: apiKey ? "personal" : "server",
+    hint: apiKey ? maskApiKey(apiKey) : undefined,
+    serverKeyAvailable:
+      !!process.env.GEMINI_API_KEY || process.env.AI_PROVIDER === "fake",
+  };
+}
+
+export async function setApiKeyCookie(apiKey: string) {
+  (await cookies()).set(API_KEY_COOKIE, encryptApiKey(apiKey), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: "/api",
+    maxAge: COOKIE_MAX_AGE_S,
+  });
+}
+
+export async function clearApiKeyCookie() {
+  (await cookies()).set(API_KEY_COOKIE, "", { path: "/api", maxAge: 0 });
+}
@@ -0,0 +1,48 @@
+import { ComposeRole } from "@/types/studio";
+
+/** Roles offered per image in compose mode, with how each is explained. */
+export const COMPOSE_ROLES: {
+  role: ComposeRole;
+  label: string;
+  instruction: string;
+}[] = [
+  {
+    role: "subject",
+    label: "Subject",
+    instruction: "a main subject; keep its identity, shape and details",
+  },
+  {
+    role: "style",
+    label: "Style reference",
+    instruction:
+      "a style reference; take its colors, lighting and artistic style but none of its content",
+  },
+  {
+    role: "background",
+    label: "Background",
+    instruction: "the background; use it as the setting of the scene",
+  },
+  {
+    role: "product",
+    label: "Product",
+    instruction:
+      "a product; reproduce it exactly, including its shape, labels and logos",
+  },
+];
+
+/**
+ * Prefixes a compose prompt with what each input image is for, numbered in
+ * the order the images are sent.
+ */
+export function composeInstructions(
+  prompt: string,
+  roles: ComposeRole[]
+): string {
+  const lines = roles.map((role, index) => {
+    const info = COMPOSE_ROLES.find((option) => option.role === role);
+    return `- Image ${index + 1}: ${info?.instruction ?? role}`;
+  });
+  return `Combine the images into one picture. They are:\n${lines.join(
+    "\n"
+  )}\n\nInstructions: ${prompt}`;
+}
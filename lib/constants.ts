@@ -1,7 +1,7 @@
 import { Video } from '@/types/gallery';
 
 /** Base URL for static files. */
-const staticFilesUrl =
+export const staticFilesUrl =
   'https://www.gstatic.com/aistudio/starter-apps/veo3-gallery/';
 
 /** Videos for the gallery. */
@@ -0,0 +1,60 @@
+import { ChatTurn } from "@/lib/ai";
+
+/** Sessions idle for longer than this are forgotten. */
+const SESSION_TTL_MS = 60 * 60 * 1000;
+/** Oldest sessions are dropped beyond this many. */
+const MAX_SESSIONS = 100;
+/** Older exchanges are dropped so requests stay within the context window. */
+const MAX_SESSION_TURNS = 12;
+
+interface EditSession {
+  turns: ChatTurn[];
+  updatedAt: number;
+}
+
+// Shared across route bundles and dev hot reloads. Conversations hold the
+// images exchanged so far and are kept in memory only.
+const globalForSessions = globalThis as unknown as {
+  editSessions?: Map<string, EditSession>;
+};
+const sessions = (globalForSessions.editSessions ??= new Map());
+
+function prune(now: number) {
+  for (const [id, session] of sessions) {
+    if (now - session.updatedAt > SESSION_TTL_MS) sessions.delete(id);
+  }
+  // Maps iterate in insertion order, and sessions are re-inserted on update.
+  for (const id of sessions.keys()) {
+    if (sessions.size <= MAX_SESSIONS) break;
+    sessions.delete(id);
+  }
+}
+
+/** Earlier turns of a session, or null when it is unknown or expired. */
+export function getEditHistory(id: string): ChatTurn[] | null {
+  prune(Date.now());
+  return sessions.get(id)?.turns ?? null;
+}
+
+/**
+ * Records one user turn and the model's answer. Starts a new session when
+ * `id` is missing or expired; resolves to the session's id.
+ */
+export function appendEditTurns(
+  id: string | undefined,
+  user: ChatTurn,
+  model: ChatTurn
+): string {
+  const now = Date.now();
+  prune(now);
+
+  const sessionId = id && sessions.has(id) ? id : crypto.randomUUID();
+  const turns = [...(sessions.get(sessionId)?.turns ?? []), user, model];
+  sessions.delete(sessionId);
+  sessions.set(sessionId, {
+    // Turns come in user/model pairs; keep whole exchanges.
+    turns: turns.slice(-MAX_SESSION_TURNS),
+    updatedAt: now,
+  });
+  return sessionId;
+}
@@ -0,0 +1,80 @@
+import { ApiErrorBody, ErrorCode, FieldIssue } from "@/types/errors";
+
+const ERROR_CODES: ErrorCode[] = [
+  "QUOTA_EXCEEDED",
+  "SAFETY_BLOCKED",
+  "TIER_REQUIRED",
+  "INVALID_INPUT",
+  "UPSTREAM_TIMEOUT",
+  "NO_OUTPUT",
+  "UNKNOWN",
+];
+
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  QUOTA_EXCEEDED: 429,
+  SAFETY_BLOCKED: 422,
+  TIER_REQUIRED: 403,
+  INVALID_INPUT: 400,
+  UPSTREAM_TIMEOUT: 504,
+  NO_OUTPUT: 502,
+  UNKNOWN: 500,
+};
+
+/**
+ * A failure with a stable code. Thrown on the server and rebuilt in the
+ * browser from the route's response.
+ */
+export class GenerationError extends Error {
+  constructor(
+    public readonly code: ErrorCode,
+    message: string,
+    public readonly details?: string,
+    public readonly fields?: FieldIssue[]
+  ) {
+    super(message);
+    this.name = "GenerationError";
+  }
+
+  toJSON(): ApiErrorBody {
+    return {
+      error: this.message,
+      code: this.code,
+      details: this.details,
+      fields: this.fields,
+    };
+  }
+}
+
+/** Rebuilds the error a route answered with from its parsed JSON body. */
+export function errorFromResponse(
+  body: unknown,
+  status: number
+): GenerationError {
+  const { error, code, details, fields } = (body ??
+    {}) as Partial<ApiErrorBody>;
+  return new GenerationError(
+    code && ERROR_CODES.includes(code) ? code : "UNKNOWN",
+    error || `API error: ${status}`,
+    details,
+    fields
+  );
+}
+
+/** INVALID_INPUT error listing the fields that failed validation. */
+export function invalidFieldsError(fields: FieldIssue[]): GenerationError {
+  return new GenerationError(
+    "INVALID_INPUT",
+    "Invalid request",
+    fields.map(({ field, message }) => `${field}: ${message}`).join("\n"),
+    fields
+  );
+}
+
+/** Passes coded errors through and wraps anything else as UNKNOWN. */
+export function toGenerationError(error: unknown): GenerationError {
+  if (error instanceof GenerationError) return error;
+  return new GenerationError(
+    "UNKNOWN",
+    error instanceof Error ? error.message : String(error)
+  );
+}
@@ -0,0 +1,68 @@
+import { ModelInfo, ModelRequest } from "@/lib/models";
+import { GenerationSettings } from "@/types/studio";
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  aspectRatio: "16:9",
+  negativePrompt: "",
+  numberOfOutputs: 1,
+};
+
+/**
+ * Brings settings within what a model supports, so that switching models
+ * never leaves a choice the new model would reject.
+ */
+export function fitSettingsToModel(
+  settings: GenerationSettings,
+  model: ModelInfo
+): GenerationSettings {
+  const pick = <T>(value: T | undefined, allowed: T[]) =>
+    value !== undefined && allowed.includes(value) ? value : undefined;
+
+  return {
+    ...settings,
+    aspectRatio:
+      model.aspectRatios.length === 0 ||
+      model.aspectRatios.includes(settings.aspectRatio)
+        ? settings.aspectRatio
+        : model.aspectRatios[0],
+    numberOfOutputs: Math.min(settings.numberOfOutputs, model.maxOutputs),
+    personGeneration: pick(settings.personGeneration, model.personGeneration),
+    resolution: pick(settings.resolution, model.resolutions),
+    durationSeconds: pick(settings.durationSeconds, model.durationsSeconds),
+  };
+}
+
+/**
+ * The settings to send with a request to `model`: those it supports that
+ * differ from the upstream default.
+ */
+export function settingsForModel(
+  settings: GenerationSettings,
+  model: ModelInfo | undefined
+): Omit<ModelRequest, "imageCount"> {
+  if (!model) return {};
+  return {
+    aspectRatio:
+      model.aspectRatios.length > 0 ? settings.aspectRatio : undefined,
+    negativePrompt:
+      model.supportsNegativePrompt && settings.negativePrompt.trim()
+        ? settings.negativePrompt
+        : undefined,
+    seed: model.supportsSeed ? settings.seed : undefined,
+    numberOfOutputs:
+      model.maxOutputs > 1 ? settings.numberOfOutputs : undefined,
+    personGeneration: settings.personGeneration,
+    resolution: settings.resolution,
+    durationSeconds: settings.durationSeconds,
+  };
+}
+
+/** Appends the set fields of `settingsForModel` to a multipart body. */
+export function appendSettings(
+  form: FormData,
+  request: Omit<ModelRequest, "imageCount">
+) {
+  for (const [field, value] of Object.entries(request)) {
+    if (value !== undefined) form.append(field, String(value));
+  }
+}
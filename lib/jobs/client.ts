@@ -0,0 +1,147 @@
+import { errorFromResponse, GenerationError } from "@/lib/errors";
+import { isAbortError } from "@/lib/utils";
+import { Job, JobEvent } from "@/types/jobs";
+
+/** Browser-side helpers for the `/api/jobs` endpoints. */
+
+export const TERMINAL_JOB_STATUSES: Job["status"][] = [
+  "succeeded",
+  "failed",
+  "cancelled",
+];
+
+export function assetUrl(assetId: string): string {
+  return `/api/assets/${assetId}`;
+}
+
+/** The coded error a failed job settled with. */
+export function jobFailure(job: Job): GenerationError {
+  return new GenerationError(
+    job.errorCode ?? "UNKNOWN",
+    job.error || "Video generation failed",
+    job.errorDetails
+  );
+}
+
+/**
+ * Starts a video job from the same multipart form `/api/veo/generate` takes.
+ * The request is not aborted with `signal`, since the server may already
+ * have started the job: a job created after `signal` aborts is cancelled and
+ * the call rejects with an AbortError.
+ */
+export async function submitVideoJob(
+  form: FormData,
+  signal?: AbortSignal
+): Promise<Job> {
+  const resp = await fetch("/api/jobs", { method: "POST", body: form });
+  const json = await resp.json();
+  if (!resp.ok) {
+    throw errorFromResponse(json, resp.status);
+  }
+  const job = json.job as Job;
+  if (signal?.aborted) {
+    cancelJob(job.id).catch((e) =>
+      console.error(`Error cancelling job ${job.id}:`, e)
+    );
+    throw new DOMException("Aborted", "AbortError");
+  }
+  return job;
+}
+
+/** Resolves to null when the server has no record of the job. */
+export async function fetchJob(id: string): Promise<Job | null> {
+  const resp = await fetch(`/api/jobs/${id}`, { cache: "no-store" });
+  if (resp.status === 404) return null;
+  const json = await resp.json();
+  if (!resp.ok) {
+    throw errorFromResponse(json, resp.status);
+  }
+  return json.job as Job;
+}
+
+/**
+ * Follows a job's event stream until it settles. Rejects when it fails, is
+ * cancelled or the stream is lost, and with an AbortError when `signal`
+ * aborts.
+ */
+export function waitForJob(id: string, signal?: AbortSignal): Promise<Job> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${id}/events`);
+    const settle = (error: Error | null, job?: Job) => {
+      source.close();
+      signal?.removeEventListener("abort", onAbort);
+      if (error) reject(error);
+      else resolve(job as Job);
+    };
+    const onAbort = () => settle(new DOMException("Aborted", "AbortError"));
+
+    source.addEventListener("done", (e) => {
+      const { job } = JSON.parse((e as MessageEvent<string>).data) as JobEvent;
+      if (job.status === "succeeded") {
+        settle(null, job);
+      } else if (job.status === "failed") {
+        settle(jobFailure(job));
+      } else {
+        settle(new GenerationError("UNKNOWN", "The video job was cancelled"));
+      }
+    });
+    source.onerror = () => {
+      // EventSource retries on its own unless the connection was refused.
+      if (source.readyState === EventSource.CLOSED) {
+        settle(
+          new GenerationError("UNKNOWN", "Lost connection to job updates")
+        );
+      }
+    };
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Stops a job; the server also cancels the upstream operation if it can. */
+export async function cancelJob(id: string): Promise<Job> {
+  const resp = await fetch(`/api/jobs/${id}/cancel`, { method: "POST" });
+  const json = await resp.json();
+  if (!resp.ok) {
+    throw errorFromResponse(json, resp.status);
+  }
+  return json.job as Job;
+}
+
+/**
+ * Runs a video job to completion and resolves to its first video. Aborting
+ * `signal` cancels the job too, once it is queued.
+ */
+export async function generateVideo(
+  form: FormData,
+  {
+    signal,
+    onStarted,
+  }: {
+    signal?: AbortSignal;
+    /** Called once the server has started the job. */
+    onStarted?: (job: Job) => void;
+  } = {}
+): Promise<Blob> {
+  const job = await submitVideoJob(form, signal);
+  if (job.status === "failed") {
+    throw jobFailure(job);
+  }
+  onStarted?.(job);
+
+  try {
+    const done = await waitForJob(job.id, signal);
+    const resp = await fetch(assetUrl(done.resultAssetIds[0]), { signal });
+    if (!resp.ok) {
+      throw new GenerationError("UNKNOWN", "Failed to download the video");
+    }
+    return await resp.blob();
+  } catch (error) {
+    if (isAbortError(error)) {
+      cancelJob(job.id).catch((e) =>
+        console.error(`Error cancelling job ${job.id}:`, e)
+      );
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,123 @@
+import {
+  classifyProviderError,
+  getProvider,
+  StartVideoParams,
+} from "@/lib/ai";
+import { ResolvedApiKey } from "@/lib/api-key";
+import { Job, JobEvent } from "@/types/jobs";
+import { assetUrl, TERMINAL_JOB_STATUSES } from "./client";
+import {
+  createJob,
+  getJob,
+  getJobApiKey,
+  listJobs,
+  setJobApiKey,
+  updateJob,
+} from "./store";
+import { ensureJobWorker } from "./worker";
+
+export { ensureJobOwner, jobOwner } from "./owner";
+export { ensureJobWorker } from "./worker";
+
+/** The job if it belongs to `ownerId`; other callers' jobs read as missing. */
+export async function getOwnedJob(
+  id: string,
+  ownerId: string | null
+): Promise<Job | null> {
+  const job = await getJob(id);
+  return job && ownerId && job.ownerId === ownerId ? job : null;
+}
+
+/** The jobs of `ownerId`, newest first. */
+export async function listOwnedJobs(ownerId: string | null): Promise<Job[]> {
+  if (!ownerId) return [];
+  return (await listJobs()).filter((job) => job.ownerId === ownerId);
+}
+
+/**
+ * Records a video job for `ownerId` and starts its upstream operation with
+ * the caller's key. The job is returned as `failed` when the provider refuses
+ * to start it.
+ */
+export async function startVideoJob(
+  params: StartVideoParams,
+  key: ResolvedApiKey,
+  ownerId: string
+): Promise<Job> {
+  const job = await createJob({
+    mode: params.image ? "image-to-video" : "text-to-video",
+    model: params.model,
+    params: {
+      prompt: params.prompt,
+      negativePrompt: params.negativePrompt,
+      aspectRatio: params.aspectRatio,
+      seed: params.seed,
+      numberOfVideos: params.numberOfVideos,
+      personGeneration: params.personGeneration,
+      resolution: params.resolution,
+      durationSeconds: params.durationSeconds,
+    },
+    keySource: key.source,
+    ownerId,
+  });
+
+  try {
+    const operationName = await getProvider(key.apiKey).startVideo(params);
+    setJobApiKey(job.id, key.apiKey);
+    ensureJobWorker();
+    return await updateJob(job.id, { status: "running", operationName });
+  } catch (error) {
+    console.error(`Error starting job ${job.id}:`, error);
+    const failure = classifyProviderError(error, "Failed to start generation");
+    return updateJob(job.id, {
+      status: "failed",
+      error: failure.message,
+      errorCode: failure.code,
+      errorDetails: failure.details,
+      completedAt: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * Marks a job of `ownerId` cancelled and asks the provider to stop its
+ * upstream operation. Resolves to null for unknown jobs and other callers';
+ * settled jobs are returned unchanged.
+ */
+export async function cancelJob(
+  id: string,
+  ownerId: string | null
+): Promise<{ job: Job; upstreamCancelled: boolean } | null> {
+  const job = await getOwnedJob(id, ownerId);
+  if (!job) return null;
+  if (TERMINAL_JOB_STATUSES.includes(job.status)) {
+    return { job, upstreamCancelled: false };
+  }
+
+  let upstreamCancelled = false;
+  if (job.operationName) {
+    try {
+      upstreamCancelled = await getProvider(getJobApiKey(id)).cancelVideo(
+        job.operationName
+      );
+    } catch (error) {
+      console.error(`Error cancelling operation for job ${id}:`, error);
+    }
+  }
+
+  const cancelled = await updateJob(id, {
+    status: "cancelled",
+    completedAt: new Date().toISOString(),
+  });
+  setJobApiKey(id, undefined);
+  return { job: cancelled, upstreamCancelled };
+}
+
+export function toJobEvent(job: Job): JobEvent {
+  const end = job.completedAt ? Date.parse(job.completedAt) : Date.now();
+  return {
+    job,
+    elapsedMs: end - Date.parse(job.createdAt),
+    videoUrls: job.resultAssetIds.map(assetUrl),
+  };
+}
@@ -0,0 +1,33 @@
+import { createHash, randomUUID } from "crypto";
+import { cookies } from "next/headers";
+
+export const JOB_OWNER_COOKIE = "job_owner";
+const COOKIE_MAX_AGE_S = 60 * 60 * 24 * 365;
+
+/** Jobs store a hash of the cookie, so their records never reveal it. */
+function ownerId(token: string): string {
+  return createHash("sha256").update(token).digest("base64url");
+}
+
+/** Who the caller's jobs belong to, or null before it has started one. */
+export async function jobOwner(): Promise<string | null> {
+  const token = (await cookies()).get(JOB_OWNER_COOKIE)?.value;
+  return token ? ownerId(token) : null;
+}
+
+/** The caller's owner id, giving it a new owner cookie if it has none. */
+export async function ensureJobOwner(): Promise<string> {
+  const store = await cookies();
+  let token = store.get(JOB_OWNER_COOKIE)?.value;
+  if (!token) {
+    token = randomUUID();
+    store.set(JOB_OWNER_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "strict",
+      path: "/api",
+      maxAge: COOKIE_MAX_AGE_S,
+    });
+  }
+  return ownerId(token);
+}
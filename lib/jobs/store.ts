@@ -0,0 +1,105 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { DATA_DIR } from "@/lib/storage";
+import { KeySource } from "@/types/api-key";
+import { Job, JobMode, JobParams } from "@/types/jobs";
+
+const JOBS_FILE = path.join(DATA_DIR, "jobs.json");
+
+// Shared across route bundles and dev hot reloads so there is one in-memory
+// copy of the file and one write queue per process.
+const globalForJobs = globalThis as unknown as {
+  jobsCache?: Promise<Map<string, Job>>;
+  jobsWriteQueue?: Promise<void>;
+  jobApiKeys?: Map<string, string>;
+};
+
+// Personal API keys of jobs in flight. Kept in memory only so that keys are
+// never written to disk.
+const jobApiKeys = (globalForJobs.jobApiKeys ??= new Map());
+
+function loadJobs(): Promise<Map<string, Job>> {
+  globalForJobs.jobsCache ??= readFile(JOBS_FILE, "utf8")
+    .then((raw) => {
+      const jobs = JSON.parse(raw) as Job[];
+      return new Map(jobs.map((job) => [job.id, job]));
+    })
+    .catch(() => new Map<string, Job>());
+  return globalForJobs.jobsCache;
+}
+
+/** Writes the whole store atomically; writes are serialized. */
+function persist(jobs: Map<string, Job>): Promise<void> {
+  const write = async () => {
+    await mkdir(DATA_DIR, { recursive: true });
+    const tmp = `${JOBS_FILE}.tmp`;
+    await writeFile(tmp, JSON.stringify([...jobs.values()], null, 2));
+    await rename(tmp, JOBS_FILE);
+  };
+  globalForJobs.jobsWriteQueue = (
+    globalForJobs.jobsWriteQueue ?? Promise.resolve()
+  ).then(write, write);
+  return globalForJobs.jobsWriteQueue;
+}
+
+/** Newest first. */
+export async function listJobs(): Promise<Job[]> {
+  const jobs = await loadJobs();
+  return [...jobs.values()].sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt)
+  );
+}
+
+export async function getJob(id: string): Promise<Job | null> {
+  const jobs = await loadJobs();
+  return jobs.get(id) ?? null;
+}
+
+export async function createJob(input: {
+  mode: JobMode;
+  model: string;
+  params: JobParams;
+  keySource: KeySource;
+  ownerId: string;
+}): Promise<Job> {
+  const jobs = await loadJobs();
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: crypto.randomUUID(),
+    ...input,
+    status: "queued",
+    createdAt: now,
+    updatedAt: now,
+    resultAssetIds: [],
+  };
+  jobs.set(job.id, job);
+  await persist(jobs);
+  return job;
+}
+
+export async function updateJob(
+  id: string,
+  patch: Partial<Omit<Job, "id" | "createdAt">>
+): Promise<Job> {
+  const jobs = await loadJobs();
+  const current = jobs.get(id);
+  if (!current) {
+    throw new Error(`Unknown job ${id}`);
+  }
+  const next: Job = { ...current, ...patch, updatedAt: new Date().toISOString() };
+  jobs.set(id, next);
+  await persist(jobs);
+  return next;
+}
+
+export function setJobApiKey(id: string, apiKey: string | undefined) {
+  if (apiKey) {
+    jobApiKeys.set(id, apiKey);
+  } else {
+    jobApiKeys.delete(id);
+  }
+}
+
+export function getJobApiKey(id: string): string | undefined {
+  return jobApiKeys.get(id);
+}
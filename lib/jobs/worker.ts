@@ -0,0 +1,162 @@
+import {
+  classifyOperationError,
+  classifyProviderError,
+  GenerationError,
+  getProvider,
+} from "@/lib/ai";
+import { saveAsset } from "@/lib/storage";
+import { Job } from "@/types/jobs";
+import {
+  getJob,
+  getJobApiKey,
+  listJobs,
+  setJobApiKey,
+  updateJob,
+} from "./store";
+
+const JOB_POLL_INTERVAL_MS = 5000;
+
+/** Veo finishes within minutes; a job running longer is given up on. */
+const JOB_MAX_RUNTIME_MS = 30 * 60 * 1000;
+
+/** Failed polls in a row after which a job is marked failed. */
+const MAX_POLL_FAILURES = 10;
+
+const globalForWorker = globalThis as unknown as {
+  jobWorker?: ReturnType<typeof setInterval>;
+  jobWorkerBusy?: boolean;
+  jobPollFailures?: Map<string, number>;
+};
+
+// Consecutive poll failures per job; a successful poll resets the count.
+const pollFailures = (globalForWorker.jobPollFailures ??= new Map());
+
+/** Settles a running job as failed with the given error. */
+async function failJob(job: Job, failure: GenerationError) {
+  await updateJob(job.id, {
+    status: "failed",
+    error: failure.message,
+    errorCode: failure.code,
+    errorDetails: failure.details,
+    completedAt: new Date().toISOString(),
+  });
+  setJobApiKey(job.id, undefined);
+  pollFailures.delete(job.id);
+}
+
+/**
+ * Polls the upstream operation of a running job once, and on completion
+ * downloads every generated video into the asset store.
+ */
+async function advanceJob(job: Job) {
+  const apiKey = getJobApiKey(job.id);
+  if (job.keySource === "personal" && !apiKey) {
+    // The key lived in memory only and was lost with a server restart.
+    await failJob(
+      job,
+      new GenerationError(
+        "UNKNOWN",
+        "The personal API key for this job is no longer available"
+      )
+    );
+    return;
+  }
+
+  if (Date.now() - Date.parse(job.createdAt) > JOB_MAX_RUNTIME_MS) {
+    await failJob(
+      job,
+      new GenerationError(
+        "UPSTREAM_TIMEOUT",
+        "The video took too long to generate",
+        `No result after ${JOB_MAX_RUNTIME_MS / 60000} minutes`
+      )
+    );
+    return;
+  }
+
+  const provider = getProvider(apiKey);
+  const operation = await provider.pollVideo(job.operationName as string);
+  pollFailures.delete(job.id);
+
+  // The job may have been cancelled while the poll was in flight.
+  if ((await getJob(job.id))?.status !== "running") return;
+
+  if (!operation.done) {
+    await updateJob(job.id, { metadata: operation.metadata });
+    return;
+  }
+
+  const videos = operation.response?.generatedVideos ?? [];
+  if (operation.error || videos.length === 0) {
+    const filtered = operation.response?.raiMediaFilteredReasons ?? [];
+    const failure = operation.error
+      ? classifyOperationError(operation.error)
+      : filtered.length > 0
+      ? new GenerationError(
+          "SAFETY_BLOCKED",
+          "The video was blocked by safety filters",
+          filtered.join("; ")
+        )
+      : new GenerationError("NO_OUTPUT", "No videos generated");
+    await failJob(job, failure);
+    return;
+  }
+
+  const resultAssetIds: string[] = [];
+  for (const generated of videos) {
+    if (!generated.video?.uri) continue;
+    const video = await provider.downloadVideo(generated.video.uri);
+    const data = await new Response(video.body).arrayBuffer();
+    const asset = await saveAsset(data, video.contentType);
+    resultAssetIds.push(asset.id);
+  }
+
+  if ((await getJob(job.id))?.status !== "running") return;
+
+  await updateJob(job.id, {
+    status: "succeeded",
+    metadata: operation.metadata,
+    resultAssetIds,
+    completedAt: new Date().toISOString(),
+  });
+  setJobApiKey(job.id, undefined);
+}
+
+async function tick() {
+  // A slow download must not let a second tick pick up the same job.
+  if (globalForWorker.jobWorkerBusy) return;
+  globalForWorker.jobWorkerBusy = true;
+  try {
+    const running = (await listJobs()).filter(
+      (job) => job.status === "running" && job.operationName
+    );
+    for (const job of running) {
+      try {
+        await advanceJob(job);
+      } catch (error) {
+        // Transient upstream errors are retried on the next tick, up to a
+        // point.
+        console.error(`Error advancing job ${job.id}:`, error);
+        const failures = (pollFailures.get(job.id) ?? 0) + 1;
+        pollFailures.set(job.id, failures);
+        if (failures >= MAX_POLL_FAILURES) {
+          await failJob(
+            job,
+            classifyProviderError(error, "Lost track of the video generation")
+          ).catch((e) => console.error(`Error failing job ${job.id}:`, e));
+        }
+      }
+    }
+  } finally {
+    globalForWorker.jobWorkerBusy = false;
+  }
+}
+
+/**
+ * Starts the background poller for running jobs. Safe to call repeatedly.
+ */
+export function ensureJobWorker() {
+  if (globalForWorker.jobWorker) return;
+  globalForWorker.jobWorker = setInterval(tick, JOB_POLL_INTERVAL_MS);
+  void tick();
+}
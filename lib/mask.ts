@@ -0,0 +1,179 @@
+/**
+ * Browser helpers for inpainting masks. A mask is kept as a PNG data URL
+ * whose opaque pixels mark the region to change; everything else is
+ * transparent. Also compares results against their source.
+ */
+
+import { GenerationError } from "@/lib/errors";
+import { CanvasAnchor } from "@/types/studio";
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new window.Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load image"));
+    img.src = src;
+  });
+}
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+  return { canvas, ctx };
+}
+
+function toBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Export failed"))),
+      "image/png"
+    )
+  );
+}
+
+/** The white-on-black PNG `/api/gemini/edit` expects as `maskFile`. */
+export async function maskToBlackAndWhite(mask: string): Promise<Blob> {
+  const img = await loadImage(mask);
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  ctx.globalCompositeOperation = "source-in";
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = "destination-over";
+  ctx.fillStyle = "#000";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return toBlob(canvas);
+}
+
+/**
+ * Pastes the masked region of `edited` onto `original`, scaled to the
+ * original's size. Pixels outside the mask keep their original values.
+ * Resolves to a PNG data URL.
+ */
+export async function blendWithMask(
+  original: string,
+  edited: string,
+  mask: string
+): Promise<string> {
+  const [base, result, alpha] = await Promise.all(
+    [original, edited, mask].map(loadImage)
+  );
+  const width = base.naturalWidth;
+  const height = base.naturalHeight;
+
+  // The edited pixels, cut out by the mask
+  const patch = createCanvas(width, height);
+  patch.ctx.drawImage(result, 0, 0, width, height);
+  patch.ctx.globalCompositeOperation = "destination-in";
+  patch.ctx.drawImage(alpha, 0, 0, width, height);
+
+  const out = createCanvas(width, height);
+  out.ctx.drawImage(base, 0, 0);
+  out.ctx.drawImage(patch.canvas, 0, 0);
+  return out.canvas.toDataURL("image/png");
+}
+
+/** Target shapes offered when extending an image. */
+export const EXTEND_ASPECT_RATIOS = ["16:9", "9:16", "1:1", "4:3", "3:4"];
+
+/**
+ * Places an image on a larger canvas of the target aspect ratio, keeping all
+ * of its pixels. Resolves to the canvas, with the new area filled neutral
+ * gray, and a mask of that new area. Rejects when the image already has the
+ * target shape.
+ */
+export async function extendCanvas(
+  src: string,
+  aspectRatio: string,
+  anchor: CanvasAnchor
+): Promise<{ image: string; mask: string }> {
+  const img = await loadImage(src);
+  const [w, h] = aspectRatio.split(":").map(Number);
+  const target = w / h;
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+
+  const canvasWidth = Math.max(width, Math.round(height * target));
+  const canvasHeight = Math.max(height, Math.round(width / target));
+  if (canvasWidth === width && canvasHeight === height) {
+    throw new GenerationError(
+      "INVALID_INPUT",
+      `The image is already ${aspectRatio}`,
+      "Pick a different target aspect ratio to extend it."
+    );
+  }
+
+  const x = anchor.endsWith("left")
+    ? 0
+    : anchor.endsWith("right")
+    ? canvasWidth - width
+    : Math.round((canvasWidth - width) / 2);
+  const y = anchor.startsWith("top")
+    ? 0
+    : anchor.startsWith("bottom")
+    ? canvasHeight - height
+    : Math.round((canvasHeight - height) / 2);
+
+  const image = createCanvas(canvasWidth, canvasHeight);
+  image.ctx.fillStyle = "#808080";
+  image.ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+  image.ctx.drawImage(img, x, y);
+
+  const mask = createCanvas(canvasWidth, canvasHeight);
+  mask.ctx.fillStyle = "#fff";
+  mask.ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+  mask.ctx.clearRect(x, y, width, height);
+
+  return {
+    image: image.canvas.toDataURL("image/png"),
+    mask: mask.canvas.toDataURL("image/png"),
+  };
+}
+
+/** Channel difference below which a pixel counts as unchanged. */
+const DIFF_THRESHOLD = 12;
+
+/**
+ * Marks the pixels of `after` that differ from `before`, scaled to the size
+ * of `after`. Resolves to a PNG data URL that is magenta where they differ
+ * and transparent elsewhere, and the share of pixels that changed (0-1).
+ */
+export async function pixelDiff(
+  before: string,
+  after: string
+): Promise<{ overlay: string; changed: number }> {
+  const [a, b] = await Promise.all([before, after].map(loadImage));
+  const width = b.naturalWidth;
+  const height = b.naturalHeight;
+
+  const source = createCanvas(width, height);
+  source.ctx.drawImage(a, 0, 0, width, height);
+  const result = createCanvas(width, height);
+  result.ctx.drawImage(b, 0, 0);
+  const from = source.ctx.getImageData(0, 0, width, height).data;
+  const to = result.ctx.getImageData(0, 0, width, height).data;
+
+  const overlay = createCanvas(width, height);
+  const diff = overlay.ctx.createImageData(width, height);
+  let changed = 0;
+  for (let i = 0; i < to.length; i += 4) {
+    const delta = Math.max(
+      Math.abs(from[i] - to[i]),
+      Math.abs(from[i + 1] - to[i + 1]),
+      Math.abs(from[i + 2] - to[i + 2])
+    );
+    if (delta <= DIFF_THRESHOLD) continue;
+    changed++;
+    diff.data[i] = 255;
+    diff.data[i + 2] = 255;
+    diff.data[i + 3] = 255;
+  }
+  overlay.ctx.putImageData(diff, 0, 0);
+  return {
+    overlay: overlay.canvas.toDataURL("image/png"),
+    changed: changed / (width * height),
+  };
+}
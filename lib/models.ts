@@ -0,0 +1,231 @@
+import { FieldIssue } from "@/types/errors";
+import { GenerationMode, PersonGeneration } from "@/types/studio";
+
+export type ModelProvider = "gemini" | "imagen" | "veo";
+
+/**
+ * Everything the app knows about a model. The Composer's model picker, the
+ * studio's routing and the routes' validation all read from `MODELS`.
+ */
+export interface ModelInfo {
+  id: string;
+  label: string;
+  provider: ModelProvider;
+  modes: GenerationMode[];
+  /** Output aspect ratios; empty when the model picks the shape itself. */
+  aspectRatios: string[];
+  maxInputImages: number;
+  supportsAudio: boolean;
+  supportsNegativePrompt: boolean;
+  supportsSeed: boolean;
+  /** Candidates one request can return. */
+  maxOutputs: number;
+  /** Person-generation policies; empty when the model has no such setting. */
+  personGeneration: PersonGeneration[];
+  /** Video resolutions; empty when not configurable. */
+  resolutions: string[];
+  /** Video lengths in seconds; empty for images. */
+  durationsSeconds: number[];
+  /** Rough cost of one output relative to an Imagen 4 Fast image. */
+  relativeCost: number;
+}
+
+/** The first model listed for a mode is its default. */
+export const MODELS: ModelInfo[] = [
+  {
+    id: "gemini-2.5-flash-image-preview",
+    label: "Gemini 2.5 Flash",
+    provider: "gemini",
+    modes: ["create-image", "edit-image", "compose-image", "extend-image"],
+    aspectRatios: [],
+    maxInputImages: 10,
+    supportsAudio: false,
+    supportsNegativePrompt: false,
+    supportsSeed: true,
+    maxOutputs: 1,
+    personGeneration: [],
+    resolutions: [],
+    durationsSeconds: [],
+    relativeCost: 2,
+  },
+  {
+    id: "imagen-4.0-fast-generate-001",
+    label: "Imagen 4.0 Fast",
+    provider: "imagen",
+    modes: ["create-image"],
+    aspectRatios: ["1:1", "3:4", "4:3", "9:16", "16:9"],
+    maxInputImages: 0,
+    supportsAudio: false,
+    supportsNegativePrompt: false,
+    supportsSeed: false,
+    maxOutputs: 4,
+    personGeneration: ["dont_allow", "allow_adult", "allow_all"],
+    resolutions: [],
+    durationsSeconds: [],
+    relativeCost: 1,
+  },
+  {
+    id: "veo-3.0-generate-001",
+    label: "Veo 3",
+    provider: "veo",
+    modes: ["create-video"],
+    aspectRatios: ["16:9"],
+    maxInputImages: 1,
+    supportsAudio: true,
+    supportsNegativePrompt: true,
+    supportsSeed: true,
+    maxOutputs: 1,
+    personGeneration: ["allow_all", "allow_adult", "dont_allow"],
+    resolutions: ["720p", "1080p"],
+    durationsSeconds: [8],
+    relativeCost: 300,
+  },
+  {
+    id: "veo-3.0-fast-generate-001",
+    label: "Veo 3 Fast",
+    provider: "veo",
+    modes: ["create-video"],
+    aspectRatios: ["16:9"],
+    maxInputImages: 1,
+    supportsAudio: true,
+    supportsNegativePrompt: true,
+    supportsSeed: true,
+    maxOutputs: 1,
+    personGeneration: ["allow_all", "allow_adult", "dont_allow"],
+    resolutions: ["720p", "1080p"],
+    durationsSeconds: [8],
+    relativeCost: 160,
+  },
+  {
+    id: "veo-2.0-generate-001",
+    label: "Veo 2",
+    provider: "veo",
+    modes: ["create-video"],
+    aspectRatios: ["16:9", "9:16"],
+    maxInputImages: 1,
+    supportsAudio: false,
+    supportsNegativePrompt: true,
+    supportsSeed: false,
+    maxOutputs: 2,
+    personGeneration: ["allow_adult", "dont_allow"],
+    resolutions: [],
+    durationsSeconds: [5, 6, 7, 8],
+    relativeCost: 140,
+  },
+];
+
+/** Text model that writes prompts for the others; not offered in the picker. */
+export const PROMPT_WRITER_MODEL = "gemini-2.5-flash";
+
+export function getModel(id: string): ModelInfo | undefined {
+  return MODELS.find((model) => model.id === id);
+}
+
+/** Models matching every given criterion, in registry order. */
+export function findModels(filter: {
+  provider?: ModelProvider;
+  modes?: GenerationMode[];
+}): ModelInfo[] {
+  return MODELS.filter(
+    (model) =>
+      (!filter.provider || model.provider === filter.provider) &&
+      (!filter.modes || filter.modes.some((mode) => model.modes.includes(mode)))
+  );
+}
+
+export function defaultModelFor(mode: GenerationMode): ModelInfo {
+  return findModels({ modes: [mode] })[0];
+}
+
+/** Cheapest model for a mode, among those `accept` allows. */
+export function cheapestModelFor(
+  mode: GenerationMode,
+  accept: (model: ModelInfo) => boolean = () => true
+): ModelInfo {
+  return findModels({ modes: [mode] })
+    .filter(accept)
+    .reduce((a, b) => (b.relativeCost < a.relativeCost ? b : a));
+}
+
+/** The request options `checkModelSupport` knows how to check. */
+export interface ModelRequest {
+  aspectRatio?: string;
+  imageCount?: number;
+  negativePrompt?: string;
+  seed?: number;
+  numberOfOutputs?: number;
+  personGeneration?: string;
+  resolution?: string;
+  durationSeconds?: number;
+}
+
+/**
+ * Checks a request against what its model supports, beyond the route schema.
+ * Unknown models are left to the schema's model check.
+ */
+export function checkModelSupport(
+  modelId: string,
+  request: ModelRequest
+): FieldIssue[] {
+  const model = getModel(modelId);
+  if (!model) return [];
+
+  const issues: FieldIssue[] = [];
+  if (
+    request.aspectRatio &&
+    model.aspectRatios.length > 0 &&
+    !model.aspectRatios.includes(request.aspectRatio)
+  ) {
+    issues.push({
+      field: "aspectRatio",
+      message: `${model.label} supports ${model.aspectRatios.join(", ")}`,
+    });
+  }
+  if ((request.imageCount ?? 0) > model.maxInputImages) {
+    issues.push({
+      field: "images",
+      message:
+        model.maxInputImages === 0
+          ? `${model.label} does not take input images`
+          : `${model.label} takes at most ${model.maxInputImages} image${
+              model.maxInputImages === 1 ? "" : "s"
+            }`,
+    });
+  }
+  if (request.negativePrompt && !model.supportsNegativePrompt) {
+    issues.push({
+      field: "negativePrompt",
+      message: `${model.label} does not support negative prompts`,
+    });
+  }
+  if (request.seed !== undefined && !model.supportsSeed) {
+    issues.push({
+      field: "seed",
+      message: `${model.label} does not support seeds`,
+    });
+  }
+  if ((request.numberOfOutputs ?? 1) > model.maxOutputs) {
+    issues.push({
+      field: "numberOfOutputs",
+      message: `${model.label} returns at most ${model.maxOutputs}`,
+    });
+  }
+  const choices: [keyof ModelRequest, (string | number)[]][] = [
+    ["personGeneration", model.personGeneration],
+    ["resolution", model.resolutions],
+    ["durationSeconds", model.durationsSeconds],
+  ];
+  for (const [field, allowed] of choices) {
+    const value = request[field];
+    if (value !== undefined && !allowed.includes(value)) {
+      issues.push({
+        field,
+        message:
+          allowed.length === 0
+            ? `${model.label} does not support this setting`
+            : `${model.label} supports ${allowed.join(", ")}`,
+      });
+    }
+  }
+  return issues;
+}
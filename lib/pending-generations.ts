@@ -0,0 +1,43 @@
+/**
+ * Browser-side record of video generations that were started but not yet
+ * collected, so a reload does not lose a paid generation.
+ */
+
+export interface PendingGeneration {
+  jobId: string;
+  /** Upstream operation, used when the server no longer knows the job. */
+  operationName?: string;
+  prompt: string;
+  model: string;
+  startedAt: string;
+}
+
+const STORAGE_KEY = "alchemy-studio:pending-generations";
+
+export function loadPendingGenerations(): PendingGeneration[] {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as PendingGeneration[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function store(pending: PendingGeneration[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(pending));
+  } catch (e) {
+    console.error("Could not persist pending generations:", e);
+  }
+}
+
+export function savePendingGeneration(generation: PendingGeneration) {
+  store([
+    ...loadPendingGenerations().filter((p) => p.jobId !== generation.jobId),
+    generation,
+  ]);
+}
+
+export function removePendingGeneration(jobId: string) {
+  store(loadPendingGenerations().filter((p) => p.jobId !== jobId));
+}
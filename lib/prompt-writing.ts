@@ -0,0 +1,82 @@
+import { MOCK_VIDEOS } from "@/lib/constants";
+import { ModelInfo } from "@/lib/models";
+import { GenerationMode } from "@/types/studio";
+
+/** Gallery prompts that show the level of detail Veo does best with. */
+const VIDEO_PROMPT_EXAMPLES = MOCK_VIDEOS.filter((video) =>
+  ["4", "5"].includes(video.id)
+).map((video) => video.description);
+
+/** What the prompt of each editing mode is for, beyond creating from scratch. */
+const MODE_GUIDANCE: Partial<Record<GenerationMode, string>> = {
+  "edit-image":
+    "The prompt is an instruction for editing an existing image. Make it " +
+    "precise: what to change, where in the picture, how it should look, " +
+    "and what must stay exactly as it is.",
+  "compose-image":
+    "The prompt says how to combine several input images into one. Spell " +
+    "out the arrangement, relative scale and placement, and how lighting, " +
+    "perspective and style are matched so the result looks like one picture.",
+  "extend-image":
+    "The prompt describes what should fill the new area around an image " +
+    "being extended. Describe surroundings that continue the existing scene " +
+    "in perspective, lighting and style.",
+};
+
+/** What a prompt for the target model should cover, beyond the subject. */
+function targetGuidance(target: ModelInfo): string {
+  if (target.provider !== "veo") {
+    return (
+      `It is for ${target.label}, which makes a single still image. Cover ` +
+      "the subject, setting, composition and framing, camera angle and lens, " +
+      "lighting, color palette, style or medium, and mood."
+    );
+  }
+  const audio = target.supportsAudio
+    ? " Add the soundscape: ambient sound, effects, music and any dialogue, " +
+      "with spoken lines in quotes."
+    : "";
+  return (
+    `It is for ${target.label}, which makes a short video shot. Cover the ` +
+    "subject and action, setting, framing, camera movement, lighting, color " +
+    `palette and mood, in the order they unfold.${audio}`
+  );
+}
+
+const answerFormat = (maxWords: number) =>
+  "Answer with the prompt only, as flowing prose without headings, lists or " +
+  `quotes around it, in under ${maxWords} words.`;
+
+/** System instructions for writing a prompt that recreates an image. */
+export function describeImageInstructions(target: ModelInfo): string {
+  return [
+    "You write prompts for generative models. Describe the attached " +
+      "reference image as a detailed prompt that would recreate it.",
+    targetGuidance(target),
+    answerFormat(150),
+  ].join(" ");
+}
+
+/**
+ * System instructions for expanding a short idea into a full prompt for the
+ * given mode and model.
+ */
+export function enhancePromptInstructions(
+  target: ModelInfo,
+  mode: GenerationMode
+): string {
+  const parts = [
+    "You write prompts for generative models. Rewrite the user's short " +
+      "idea into a full, vivid prompt. Keep every detail and the intent " +
+      "they gave, and add the specifics they left out.",
+    MODE_GUIDANCE[mode] ?? targetGuidance(target),
+  ];
+  if (mode === "create-video" && target.supportsAudio) {
+    parts.push(
+      "Prompts like these work well:",
+      ...VIDEO_PROMPT_EXAMPLES.map((example) => `"${example}"`)
+    );
+  }
+  parts.push(answerFormat(mode === "create-video" ? 200 : 120));
+  return parts.join(" ");
+}
@@ -0,0 +1,209 @@
+import { findModels, ModelInfo, MODELS } from "./models";
+import { Schema } from "./validation";
+
+/**
+ * Request schemas of the API routes. The studio validates its forms against
+ * the same schemas before sending them. Models, aspect ratios and image
+ * counts come from the model registry; `checkModelSupport` narrows them to
+ * the chosen model.
+ */
+
+export const MAX_PROMPT_LENGTH = 2000;
+
+export const IMAGE_MIME_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+] as const;
+
+const ids = (models: ModelInfo[]) => models.map((model) => model.id);
+const aspectRatios = (models: ModelInfo[]) => [
+  ...new Set(models.flatMap((model) => model.aspectRatios)),
+];
+const maxInputImages = (models: ModelInfo[]) =>
+  Math.max(...models.map((model) => model.maxInputImages));
+const maxOutputs = (models: ModelInfo[]) =>
+  Math.max(...models.map((model) => model.maxOutputs));
+const personGeneration = (models: ModelInfo[]) => [
+  ...new Set(models.flatMap((model) => model.personGeneration)),
+];
+
+const geminiGenerateModels = findModels({
+  provider: "gemini",
+  modes: ["create-image"],
+});
+const imagenModels = findModels({ provider: "imagen" });
+const geminiEditModels = findModels({
+  provider: "gemini",
+  modes: ["edit-image", "compose-image", "extend-image"],
+});
+const veoModels = findModels({ provider: "veo" });
+/** Models a prompt can be written for. */
+const promptTargetModels = findModels({
+  modes: ["create-image", "create-video"],
+});
+
+const prompt = {
+  kind: "string",
+  required: true,
+  maxLength: MAX_PROMPT_LENGTH,
+} as const;
+
+const negativePrompt = {
+  kind: "string",
+  maxLength: MAX_PROMPT_LENGTH,
+} as const;
+
+/** Seeds are unsigned 32-bit integers upstream. */
+const seed = { kind: "number", integer: true, min: 0, max: 4294967295 } as const;
+
+/** `POST /api/gemini/generate` */
+export const geminiGenerateSchema: Schema = {
+  prompt,
+  model: { kind: "string", oneOf: ids(geminiGenerateModels) },
+  seed,
+};
+
+/** `POST /api/imagen/generate` */
+export const imagenGenerateSchema: Schema = {
+  prompt,
+  model: { kind: "string", oneOf: ids(imagenModels) },
+  aspectRatio: { kind: "string", oneOf: aspectRatios(imagenModels) },
+  seed,
+  numberOfOutputs: {
+    kind: "number",
+    integer: true,
+    min: 1,
+    max: maxOutputs(imagenModels),
+  },
+  personGeneration: { kind: "string", oneOf: personGeneration(imagenModels) },
+};
+
+/** `POST /api/gemini/edit`, for editing, composing and extending. */
+export const geminiEditSchema: Schema = {
+  prompt,
+  model: { kind: "string", oneOf: ids(geminiEditModels) },
+  images: {
+    kind: "images",
+    min: 1,
+    max: maxInputImages(geminiEditModels),
+    mimeTypes: IMAGE_MIME_TYPES,
+  },
+  /** Inpainting mask, white where the image may change. */
+  mask: { kind: "images", max: 1, mimeTypes: ["image/png"] },
+  /** `outpaint` fills new canvas area instead of changing existing pixels. */
+  maskMode: { kind: "string", oneOf: ["inpaint", "outpaint"] },
+  seed,
+  sessionId: { kind: "string", maxLength: 64 },
+};
+
+/** `POST /api/veo/generate` and `POST /api/jobs` */
+export const videoGenerateSchema: Schema = {
+  prompt,
+  model: { kind: "string", oneOf: ids(veoModels) },
+  negativePrompt,
+  aspectRatio: { kind: "string", oneOf: aspectRatios(veoModels) },
+  seed,
+  numberOfOutputs: {
+    kind: "number",
+    integer: true,
+    min: 1,
+    max: maxOutputs(veoModels),
+  },
+  personGeneration: { kind: "string", oneOf: personGeneration(veoModels) },
+  resolution: {
+    kind: "string",
+    oneOf: [...new Set(veoModels.flatMap((model) => model.resolutions))],
+  },
+  durationSeconds: {
+    kind: "number",
+    integer: true,
+    oneOf: [...new Set(veoModels.flatMap((model) => model.durationsSeconds))],
+  },
+  images: {
+    kind: "images",
+    max: maxInputImages(veoModels),
+    mimeTypes: IMAGE_MIME_TYPES,
+  },
+};
+
+/** `POST /api/gemini/describe` */
+export const describeImageSchema: Schema = {
+  model: { kind: "string", required: true, oneOf: ids(promptTargetModels) },
+  images: {
+    kind: "images",
+    min: 1,
+    max: 1,
+    mimeTypes: IMAGE_MIME_TYPES,
+  },
+};
+
+/** `POST /api/gemini/enhance` */
+export const enhancePromptSchema: Schema = {
+  prompt,
+  model: { kind: "string", required: true, oneOf: ids(MODELS) },
+  mode: {
+    kind: "string",
+    required: true,
+    oneOf: [...new Set(MODELS.flatMap((model) => model.modes))],
+  },
+};
+
+/** Containers the video export can produce. */
+export const VIDEO_EXPORT_FORMATS = ["mp4", "webm"] as const;
+
+/** Videos the export accepts as its source. */
+export const VIDEO_MIME_TYPES = ["video/mp4", "video/webm"] as const;
+
+/** Most kept segments one export may join. */
+export const MAX_EXPORT_SEGMENTS = 20;
+
+/** `POST /api/video/export` */
+export const videoExportSchema: Schema = {
+  segments: { kind: "number", min: 1, max: MAX_EXPORT_SEGMENTS },
+  format: { kind: "string", oneOf: VIDEO_EXPORT_FORMATS },
+};
+
+/** Each `start`/`end` pair of `POST /api/video/export`. */
+export const videoSegmentSchema: Schema = {
+  start: { kind: "number", required: true, min: 0 },
+  end: { kind: "number", required: true, min: 0 },
+};
+
+/** How timeline clips may hand over to the next one. */
+export const TRANSITION_KINDS = ["cut", "crossfade", "dip-to-black"] as const;
+
+/** Most clips one timeline render may join. */
+export const MAX_TIMELINE_CLIPS = 12;
+
+/** `POST /api/video/render` */
+export const timelineRenderSchema: Schema = {
+  clips: { kind: "number", min: 1, max: MAX_TIMELINE_CLIPS },
+  format: { kind: "string", oneOf: VIDEO_EXPORT_FORMATS },
+  transitionSeconds: { kind: "number", min: 0.1, max: 2 },
+};
+
+/** The fields each clip of `POST /api/video/render` repeats. */
+export const timelineClipSchema: Schema = {
+  trimStart: { kind: "number", required: true, min: 0 },
+  trimEnd: { kind: "number", required: true, min: 0 },
+  transition: { kind: "string", oneOf: TRANSITION_KINDS },
+  volume: { kind: "number", min: 0, max: 2 },
+};
+
+/** `POST /api/veo/operation` */
+export const videoOperationSchema: Schema = {
+  name: { kind: "string", required: true, maxLength: 512 },
+};
+
+/** `POST /api/veo/download` */
+export const videoDownloadSchema: Schema = {
+  uri: { kind: "string", required: true, maxLength: 2048 },
+};
+
+/** `POST /api/settings/api-key` */
+export const apiKeySchema: Schema = {
+  apiKey: { kind: "string", required: true, maxLength: 256 },
+};
@@ -0,0 +1,79 @@
+import { mkdir, readdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+
+/** Root directory for server-side state (jobs and generated assets). */
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), ".data");
+
+const ASSETS_DIR = path.join(DATA_DIR, "assets");
+
+export interface Asset {
+  id: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+  /** Set for short-lived files, such as exports, that are deleted after. */
+  expiresAt?: string;
+}
+
+/** Asset ids are generated UUIDs; anything else could escape the assets dir. */
+const ASSET_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+export async function saveAsset(
+  data: ArrayBuffer | Buffer,
+  mimeType: string,
+  { ttlMs }: { ttlMs?: number } = {}
+): Promise<Asset> {
+  const now = Date.now();
+  const asset: Asset = {
+    id: crypto.randomUUID(),
+    mimeType,
+    size: data.byteLength,
+    createdAt: new Date(now).toISOString(),
+    expiresAt:
+      ttlMs === undefined ? undefined : new Date(now + ttlMs).toISOString(),
+  };
+  await mkdir(ASSETS_DIR, { recursive: true });
+  const bytes = Buffer.isBuffer(data) ? data : Buffer.from(data);
+  await writeFile(path.join(ASSETS_DIR, asset.id), bytes);
+  await writeFile(
+    path.join(ASSETS_DIR, `${asset.id}.json`),
+    JSON.stringify(asset)
+  );
+  return asset;
+}
+
+const isExpired = (asset: Asset) =>
+  !!asset.expiresAt && Date.parse(asset.expiresAt) <= Date.now();
+
+/** Returns null for unknown, expired or malformed ids. */
+export async function readAsset(
+  id: string
+): Promise<{ asset: Asset; data: Buffer } | null> {
+  if (!ASSET_ID_PATTERN.test(id)) return null;
+  try {
+    const meta = await readFile(path.join(ASSETS_DIR, `${id}.json`), "utf8");
+    const asset = JSON.parse(meta) as Asset;
+    if (isExpired(asset)) return null;
+    const data = await readFile(path.join(ASSETS_DIR, id));
+    return { asset, data };
+  } catch {
+    return null;
+  }
+}
+
+/** Deletes the files of every asset past its expiry. */
+export async function pruneExpiredAssets(): Promise<void> {
+  const names = await readdir(ASSETS_DIR).catch(() => [] as string[]);
+  for (const name of names) {
+    const id = name.replace(/\.json$/, "");
+    if (id === name || !ASSET_ID_PATTERN.test(id)) continue;
+    try {
+      const meta = await readFile(path.join(ASSETS_DIR, name), "utf8");
+      if (!isExpired(JSON.parse(meta) as Asset)) continue;
+      await rm(path.join(ASSETS_DIR, id), { force: true });
+      await rm(path.join(ASSETS_DIR, name), { force: true });
+    } catch (error) {
+      console.error(`Error pruning asset ${id}:`, error);
+    }
+  }
+}
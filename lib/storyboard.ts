@@ -0,0 +1,53 @@
+import { appendSettings } from "@/lib/generation-settings";
+import { generateVideo } from "@/lib/jobs/client";
+import { ModelRequest } from "@/lib/models";
+import { StoryboardShot } from "@/types/storyboard";
+
+/** Browser-side flow of the storyboard mode, one Veo job per shot. */
+
+export const MAX_STORYBOARD_SHOTS = 8;
+
+export function emptyShot(): StoryboardShot {
+  return {
+    id: crypto.randomUUID(),
+    prompt: "",
+    camera: "",
+    image: null,
+    continuePrevious: false,
+  };
+}
+
+/** The prompt a shot is generated from, with its camera note appended. */
+export function shotPrompt(shot: StoryboardShot): string {
+  const camera = shot.camera.trim();
+  const prompt = shot.prompt.trim();
+  return camera ? `${prompt}\n\nCamera: ${camera}` : prompt;
+}
+
+export interface ShotOptions {
+  model: string;
+  settings: Omit<ModelRequest, "imageCount">;
+  /** The shot's own start image, or the last frame of the previous shot. */
+  startImage: Blob | null;
+  /** Cancels the shot's job too, once it is queued. */
+  signal?: AbortSignal;
+  /** Called once the shot's job is started on the server. */
+  onStarted?: () => void;
+}
+
+/**
+ * Queues a Veo job for one shot with the form `/api/veo/generate` takes and
+ * resolves to the clip once the job has stored it.
+ */
+export function generateShot(
+  shot: StoryboardShot,
+  { model, settings, startImage, signal, onStarted }: ShotOptions
+): Promise<Blob> {
+  const form = new FormData();
+  form.append("prompt", shotPrompt(shot));
+  form.append("model", model);
+  // One clip per shot, whatever the studio is set to
+  appendSettings(form, { ...settings, numberOfOutputs: undefined });
+  if (startImage) form.append("imageFile", startImage);
+  return generateVideo(form, { signal, onStarted });
+}
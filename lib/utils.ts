@@ -4,3 +4,79 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/** Formats a duration in milliseconds as `m:ss`. */
+export function formatElapsed(ms: number) {
+  const totalSeconds = Math.max(Math.floor(ms / 1000), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, "0");
+  return `${minutes}:${seconds}`;
+}
+
+/** True for the rejection of a fetch whose AbortSignal fired. */
+export function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/** Saves a URL (object, data or same-origin) through a temporary link. */
+export function triggerDownload(href: string, filename: string) {
+  const link = document.createElement("a");
+  link.style.display = "none";
+  link.href = href;
+  link.setAttribute("download", filename);
+  link.setAttribute("rel", "noopener");
+  link.target = "_self";
+  document.body.appendChild(link);
+  link.click();
+  setTimeout(() => document.body.removeChild(link), 0);
+}
+
+export interface DiffPart {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+/**
+ * Word-level diff of two texts, from their longest common subsequence.
+ * Whitespace stays attached to the word before it.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.match(/\S+\s*/g) ?? [];
+  const b = after.match(/\S+\s*/g) ?? [];
+  const same = (i: number, j: number) => a[i].trim() === b[j].trim();
+
+  // lcs[i][j]: length of the common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = same(i, j)
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart["type"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (same(i, j)) {
+      push("same", b[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+  return parts;
+}
@@ -0,0 +1,126 @@
+import { FieldIssue } from "@/types/errors";
+
+/**
+ * Declarative field rules shared by the API routes and the client forms.
+ * Absent optional fields are skipped; present ones must satisfy every rule.
+ */
+export type FieldRule =
+  | {
+      kind: "string";
+      required?: boolean;
+      minLength?: number;
+      maxLength?: number;
+      oneOf?: readonly string[];
+    }
+  | {
+      kind: "number";
+      required?: boolean;
+      integer?: boolean;
+      min?: number;
+      max?: number;
+      oneOf?: readonly number[];
+    }
+  | {
+      /** Validated as the list of MIME types of the attached images. */
+      kind: "images";
+      min?: number;
+      max?: number;
+      mimeTypes: readonly string[];
+    };
+
+export type Schema = Record<string, FieldRule>;
+
+function checkField(rule: FieldRule, value: unknown): string | null {
+  if (rule.kind === "images") {
+    const types = Array.isArray(value) ? value : [];
+    if (rule.min !== undefined && types.length < rule.min) {
+      return rule.min === 1
+        ? "At least one image is required"
+        : `At least ${rule.min} images are required`;
+    }
+    if (rule.max !== undefined && types.length > rule.max) {
+      return rule.max === 1
+        ? "Only one image is allowed"
+        : `At most ${rule.max} images are allowed`;
+    }
+    const unsupported = types.find((type) => !rule.mimeTypes.includes(type));
+    if (unsupported !== undefined) {
+      return `Unsupported image type "${unsupported || "unknown"}"`;
+    }
+    return null;
+  }
+
+  if (value === undefined || value === null || value === "") {
+    return rule.required ? "Required" : null;
+  }
+
+  if (rule.kind === "number") {
+    if (typeof value !== "number" || Number.isNaN(value)) {
+      return "Must be a number";
+    }
+    if (rule.integer && !Number.isInteger(value)) {
+      return "Must be a whole number";
+    }
+    if (rule.min !== undefined && value < rule.min) {
+      return `Must be at least ${rule.min}`;
+    }
+    if (rule.max !== undefined && value > rule.max) {
+      return `Must be at most ${rule.max}`;
+    }
+    if (rule.oneOf && !rule.oneOf.includes(value)) {
+      return `Must be one of ${rule.oneOf.join(", ")}`;
+    }
+    return null;
+  }
+
+  if (typeof value !== "string") {
+    return "Must be a string";
+  }
+  if (rule.minLength !== undefined && value.length < rule.minLength) {
+    return `Must be at least ${rule.minLength} characters`;
+  }
+  if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+    return `Must be at most ${rule.maxLength} characters`;
+  }
+  if (rule.oneOf && !rule.oneOf.includes(value)) {
+    return `Must be one of ${rule.oneOf.join(", ")}`;
+  }
+  return null;
+}
+
+function parseFormNumber(raw: FormDataEntryValue | null): number | undefined {
+  if (raw === null || raw === "") return undefined;
+  return typeof raw === "string" && raw.trim() !== "" ? Number(raw) : NaN;
+}
+
+/**
+ * Reads an optional numeric form field. Blank fields are `undefined`;
+ * anything unparseable is `NaN` so that validation reports it.
+ */
+export function formNumber(
+  form: FormData,
+  field: string
+): number | undefined {
+  return parseFormNumber(form.get(field));
+}
+
+/** Reads every value of a repeated numeric form field, like `formNumber`. */
+export function formNumbers(
+  form: FormData,
+  field: string
+): (number | undefined)[] {
+  return form.getAll(field).map(parseFormNumber);
+}
+
+/** Resolves to every failing field; an empty list means the values are valid. */
+export function validate(
+  schema: Schema,
+  values: Record<string, unknown>
+): FieldIssue[] {
+  const issues: FieldIssue[] = [];
+  for (const [field, rule] of Object.entries(schema)) {
+    const message = checkField(rule, values[field]);
+    if (message) issues.push({ field, message });
+  }
+  return issues;
+}
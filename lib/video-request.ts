@@ -0,0 +1,89 @@
+import { InlineImage, StartVideoParams } from "@/lib/ai";
+import { checkModelSupport, defaultModelFor } from "@/lib/models";
+import { videoGenerateSchema } from "@/lib/schemas";
+import { formNumber, validate } from "@/lib/validation";
+import { FieldIssue } from "@/types/errors";
+
+/**
+ * Reads the multipart body shared by `/api/veo/generate` and `/api/jobs`.
+ * Resolves to the failing fields when the request is unusable.
+ */
+export async function parseVideoRequest(
+  req: Request
+): Promise<{ params: StartVideoParams } | { issues: FieldIssue[] }> {
+  const contentType = req.headers.get("content-type") || "";
+
+  if (!contentType.includes("multipart/form-data")) {
+    return {
+      issues: [{ field: "body", message: "Expected multipart/form-data" }],
+    };
+  }
+
+  const form = await req.formData();
+
+  const prompt = form.get("prompt") || undefined;
+  const model =
+    (form.get("model") as string) || defaultModelFor("create-video").id;
+  const negativePrompt = (form.get("negativePrompt") as string) || undefined;
+  const aspectRatio = (form.get("aspectRatio") as string) || undefined;
+  const seed = formNumber(form, "seed");
+  const numberOfOutputs = formNumber(form, "numberOfOutputs");
+  const personGeneration =
+    (form.get("personGeneration") as string) || undefined;
+  const resolution = (form.get("resolution") as string) || undefined;
+  const durationSeconds = formNumber(form, "durationSeconds");
+
+  const imageFile = form.get("imageFile");
+  const imageBase64 = (form.get("imageBase64") as string) || undefined;
+  const imageMimeType = (form.get("imageMimeType") as string) || undefined;
+
+  let image: InlineImage | undefined;
+
+  if (imageFile && imageFile instanceof File) {
+    const buf = await imageFile.arrayBuffer();
+    const b64 = Buffer.from(buf).toString("base64");
+    image = { imageBytes: b64, mimeType: imageFile.type || "image/png" };
+  } else if (imageBase64) {
+    const cleaned = imageBase64.includes(",")
+      ? imageBase64.split(",")[1]
+      : imageBase64;
+    image = { imageBytes: cleaned, mimeType: imageMimeType || "image/png" };
+  }
+
+  const options = {
+    negativePrompt,
+    aspectRatio,
+    seed,
+    numberOfOutputs,
+    personGeneration,
+    resolution,
+    durationSeconds,
+  };
+  const issues = [
+    ...validate(videoGenerateSchema, {
+      prompt,
+      model,
+      ...options,
+      images: image ? [image.mimeType] : [],
+    }),
+    ...checkModelSupport(model, { ...options, imageCount: image ? 1 : 0 }),
+  ];
+  if (issues.length > 0) {
+    return { issues };
+  }
+
+  return {
+    params: {
+      model,
+      prompt: prompt as string,
+      image,
+      negativePrompt,
+      aspectRatio,
+      seed,
+      numberOfVideos: numberOfOutputs,
+      personGeneration,
+      resolution,
+      durationSeconds,
+    },
+  };
+}
@@ -0,0 +1,194 @@
+import { staticFilesUrl } from "@/lib/constants";
+import { errorFromResponse, GenerationError } from "@/lib/errors";
+import {
+  ExportFormat,
+  ExportResult,
+  TransitionKind,
+  VideoRange,
+} from "@/types/video";
+
+/** Browser-side helpers for the `/api/video` endpoints. */
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Called with the fraction encoded so far. */
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+/** Length in seconds and frame size of a video, read from its metadata. */
+export function videoMetadata(
+  url: string
+): Promise<{ duration: number; width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement("video");
+    video.preload = "metadata";
+    video.onloadedmetadata = () =>
+      resolve({
+        duration: video.duration,
+        width: video.videoWidth,
+        height: video.videoHeight,
+      });
+    video.onerror = () =>
+      reject(new GenerationError("INVALID_INPUT", "Could not read the video"));
+    video.src = url;
+  });
+}
+
+/** Length of a video in seconds, read from its metadata. */
+export async function videoDuration(url: string): Promise<number> {
+  return (await videoMetadata(url)).duration;
+}
+
+/**
+ * Where the page can read a video's frames: gallery videos go through
+ * `/api/gallery`, since their own host does not allow CORS.
+ */
+export function readableVideoUrl(url: string): string {
+  return url.startsWith(staticFilesUrl)
+    ? `/api/gallery/${url.slice(staticFilesUrl.length)}`
+    : url;
+}
+
+/**
+ * The final frame of a video as a PNG, to start a generation that continues
+ * it. Videos from other origins must allow CORS to be read.
+ */
+export function lastFrame(url: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const fail = () =>
+      reject(new GenerationError("INVALID_INPUT", "Could not read the video"));
+    const video = document.createElement("video");
+    video.crossOrigin = "anonymous";
+    video.muted = true;
+    video.preload = "auto";
+    // The very end may be past the last decodable frame
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.max(video.duration - 0.05, 0);
+    };
+    video.onseeked = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      try {
+        canvas.getContext("2d")?.drawImage(video, 0, 0);
+        canvas.toBlob((blob) => (blob ? resolve(blob) : fail()), "image/png");
+      } catch {
+        fail();
+      }
+    };
+    video.onerror = fail;
+    video.src = url;
+  });
+}
+
+/** Splits a Server-Sent Events stream into its events. */
+async function* readEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<{ event: string; data: string }> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += value;
+    let end: number;
+    while ((end = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      let event = "message";
+      let data = "";
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event: ")) event = line.slice(7);
+        else if (line.startsWith("data: ")) data += line.slice(6);
+      }
+      yield { event, data };
+    }
+  }
+}
+
+/** Posts an export form and follows its event stream to the exported file. */
+async function runExport(
+  url: string,
+  form: FormData,
+  { format, onProgress, signal }: ExportOptions
+): Promise<Blob> {
+  form.append("format", format);
+  const resp = await fetch(url, { method: "POST", body: form, signal });
+  if (!resp.ok || !resp.body) {
+    throw errorFromResponse(await resp.json(), resp.status);
+  }
+
+  let result: ExportResult | null = null;
+  for await (const { event, data } of readEvents(resp.body)) {
+    const payload = JSON.parse(data);
+    if (event === "progress") onProgress?.(payload.progress);
+    else if (event === "error") throw errorFromResponse(payload, 500);
+    else if (event === "done") result = payload as ExportResult;
+  }
+  if (!result) {
+    throw new GenerationError("UNKNOWN", "Video export ended unexpectedly");
+  }
+
+  const file = await fetch(result.url, { signal });
+  if (!file.ok) {
+    throw new GenerationError("UNKNOWN", "Failed to download exported video");
+  }
+  return file.blob();
+}
+
+/**
+ * Has the server join the `segments` of `video` it keeps and resolves to the
+ * exported file, reporting progress while ffmpeg encodes.
+ */
+export async function exportVideo(
+  video: Blob,
+  segments: VideoRange[],
+  options: ExportOptions
+): Promise<Blob> {
+  const form = new FormData();
+  form.append("videoFile", video);
+  for (const { start, end } of segments) {
+    form.append("start", start.toString());
+    form.append("end", end.toString());
+  }
+  return runExport("/api/video/export", form, options);
+}
+
+/** A timeline clip as `/api/video/render` takes it. */
+export interface RenderClipInput {
+  /** The video itself, or an object, stored result or gallery URL. */
+  source: Blob | string;
+  trim: VideoRange;
+  /** Into the next clip. */
+  transition: TransitionKind;
+  /** The clip's own sound, silence, or a file to play instead. */
+  audio: "clip" | "mute" | Blob;
+  volume: number;
+}
+
+/** Has the server render a timeline into one video. */
+export async function renderTimeline(
+  clips: RenderClipInput[],
+  {
+    transitionSeconds,
+    ...options
+  }: ExportOptions & { transitionSeconds: number }
+): Promise<Blob> {
+  const form = new FormData();
+  for (const clip of clips) {
+    // Object URLs only mean something to this page
+    const source =
+      typeof clip.source === "string" && clip.source.startsWith("blob:")
+        ? await (await fetch(clip.source)).blob()
+        : clip.source;
+    form.append("clips", source);
+    form.append("trimStart", clip.trim.start.toString());
+    form.append("trimEnd", clip.trim.end.toString());
+    form.append("transition", clip.transition);
+    form.append("clipAudio", clip.audio);
+    form.append("volume", clip.volume.toString());
+  }
+  form.append("transitionSeconds", transitionSeconds.toString());
+  return runExport("/api/video/render", form, options);
+}
@@ -0,0 +1,150 @@
+import { GenerationError } from "@/lib/errors";
+import { appendSettings } from "@/lib/generation-settings";
+import { generateVideo } from "@/lib/jobs/client";
+import {
+  checkModelSupport,
+  cheapestModelFor,
+  findModels,
+  getModel,
+  ModelInfo,
+  ModelRequest,
+} from "@/lib/models";
+import {
+  lastFrame,
+  RenderClipInput,
+  readableVideoUrl,
+  renderTimeline,
+  videoDuration,
+  videoMetadata,
+} from "./client";
+
+/** Browser-side "make it longer": a new clip chained from the last frame. */
+
+const CONTINUATION =
+  "Continue this shot seamlessly from this exact frame, keeping the same " +
+  "subject, setting, lighting and camera style.";
+
+/**
+ * The prompt of the continuation clip: what the video showed, if known, and
+ * what should happen next, if given.
+ */
+export function continuationPrompt(original?: string, next?: string): string {
+  return [
+    original?.trim() && `The video so far: ${original.trim()}`,
+    CONTINUATION,
+    next?.trim() && `What happens next: ${next.trim()}`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * The model to continue a video of `aspectRatio` with: `preferred` when it
+ * makes that shape, else the cheapest video model that does, with audio if
+ * one has it. Null when no video model makes that shape.
+ */
+export function extensionModel(
+  preferred: string,
+  aspectRatio: string
+): ModelInfo | null {
+  const fits = (model: ModelInfo) =>
+    model.aspectRatios.length === 0 ||
+    model.aspectRatios.includes(aspectRatio);
+  const model = getModel(preferred);
+  if (model && fits(model)) return model;
+
+  const candidates = findModels({ modes: ["create-video"] }).filter(fits);
+  if (candidates.length === 0) return null;
+  const withAudio = candidates.some((candidate) => candidate.supportsAudio);
+  return cheapestModelFor(
+    "create-video",
+    (candidate) => fits(candidate) && (!withAudio || candidate.supportsAudio)
+  );
+}
+
+/** Where `extendVideo` is at. */
+export type ExtendStage = "frame" | "generating" | "joining";
+
+export interface ExtendOptions {
+  prompt: string;
+  /** Used unless it cannot make the source's shape; see `extensionModel`. */
+  model: string;
+  /**
+   * The aspect ratio always follows the source, so the clips match, and
+   * settings the model used does not support are left out.
+   */
+  settings: Omit<ModelRequest, "imageCount">;
+  onStage?: (stage: ExtendStage) => void;
+  /** Called with the fraction joined so far. */
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Makes a video longer: generates a clip from its final frame with `prompt`
+ * through a video job and has the server append it, resolving to the one
+ * longer file. `source` is the video itself or a stored result or gallery
+ * URL.
+ */
+export async function extendVideo(
+  source: Blob | string,
+  { prompt, model, settings, onStage, onProgress, signal }: ExtendOptions
+): Promise<Blob> {
+  const url =
+    typeof source === "string"
+      ? readableVideoUrl(source)
+      : URL.createObjectURL(source);
+  try {
+    onStage?.("frame");
+    const [frame, { duration, width, height }] = await Promise.all([
+      lastFrame(url),
+      videoMetadata(url),
+    ]);
+
+    const aspectRatio = height > width ? "9:16" : "16:9";
+    const chosen = extensionModel(model, aspectRatio);
+    if (!chosen) {
+      throw new GenerationError(
+        "INVALID_INPUT",
+        `No video model can continue a ${aspectRatio} video`
+      );
+    }
+    const request = { ...settings, aspectRatio, numberOfOutputs: undefined };
+    const unsupported = new Set(
+      checkModelSupport(chosen.id, request).map((issue) => issue.field)
+    );
+
+    onStage?.("generating");
+    const form = new FormData();
+    form.append("prompt", prompt);
+    form.append("model", chosen.id);
+    appendSettings(
+      form,
+      Object.fromEntries(
+        Object.entries(request).filter(([field]) => !unsupported.has(field))
+      )
+    );
+    form.append("imageFile", frame);
+    const next = await generateVideo(form, { signal });
+
+    onStage?.("joining");
+    const nextUrl = URL.createObjectURL(next);
+    const nextDuration = await videoDuration(nextUrl).finally(() =>
+      URL.revokeObjectURL(nextUrl)
+    );
+    const clip = (video: Blob | string, end: number): RenderClipInput => ({
+      source: video,
+      trim: { start: 0, end },
+      transition: "cut",
+      audio: "clip",
+      volume: 1,
+    });
+    return await renderTimeline(
+      [clip(source, duration), clip(next, nextDuration)],
+      // Unused, since the clips meet at a cut
+      { format: "mp4", transitionSeconds: 0.5, onProgress, signal }
+    );
+  } finally {
+    if (typeof source !== "string") URL.revokeObjectURL(url);
+  }
+}
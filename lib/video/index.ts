@@ -0,0 +1,321 @@
+import { spawn } from "child_process";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { GenerationError } from "@/lib/errors";
+import { ExportFormat, TransitionKind, VideoRange } from "@/types/video";
+import { editedDuration } from "./segments";
+
+/** The ffmpeg binary; set `FFMPEG_PATH` when it is not on the PATH. */
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+
+const ENCODERS: Record<ExportFormat, { args: string[]; mimeType: string }> = {
+  mp4: {
+    args: (
+      "-c:v libx264 -preset veryfast -crf 18 -pix_fmt yuv420p " +
+      "-c:a aac -b:a 192k -movflags +faststart"
+    ).split(" "),
+    mimeType: "video/mp4",
+  },
+  webm: {
+    args: (
+      "-c:v libvpx-vp9 -crf 32 -b:v 0 -row-mt 1 -c:a libopus -b:a 128k"
+    ).split(" "),
+    mimeType: "video/webm",
+  },
+};
+
+/** Explains a missing binary; other spawn errors pass through. */
+function notFound(error: NodeJS.ErrnoException): Error {
+  if (error.code !== "ENOENT") return error;
+  return new GenerationError(
+    "UNKNOWN",
+    "Video export is not available",
+    `ffmpeg was not found at "${FFMPEG_PATH}". Install it or set FFMPEG_PATH.`
+  );
+}
+
+interface RunOptions {
+  /** Length of the output, to turn ffmpeg's timestamps into a fraction. */
+  durationSeconds: number;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs ffmpeg to completion. Rejects with a GenerationError when the binary
+ * is missing or exits with an error.
+ */
+function runFfmpeg(
+  args: string[],
+  { durationSeconds, onProgress, signal }: RunOptions
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(
+      FFMPEG_PATH,
+      ["-hide_banner", "-nostats", "-progress", "pipe:1", "-y", ...args],
+      { signal }
+    );
+
+    // Only the tail matters: ffmpeg ends with the reason it failed
+    let stderr = "";
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-4000);
+    });
+    child.stdout.on("data", (chunk: Buffer) => {
+      for (const match of chunk.toString().matchAll(/out_time_us=(\d+)/g)) {
+        const seconds = Number(match[1]) / 1e6;
+        onProgress?.(Math.min(seconds / durationSeconds, 1));
+      }
+    });
+
+    child.on("error", (error: NodeJS.ErrnoException) =>
+      reject(notFound(error))
+    );
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        const reason = stderr.trim().split("\n").slice(-3).join("\n");
+        reject(new GenerationError("UNKNOWN", "Video export failed", reason));
+      }
+    });
+  });
+}
+
+/** What `probeVideo` finds out about a file. */
+interface VideoInfo {
+  /** Seconds; 0 when ffmpeg does not report it. */
+  duration: number;
+  width: number;
+  height: number;
+  fps: number;
+  hasAudio: boolean;
+}
+
+/** Reads a file's streams from the listing `ffmpeg -i` prints. */
+function probeVideo(file: string, signal?: AbortSignal): Promise<VideoInfo> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(FFMPEG_PATH, ["-hide_banner", "-i", file], { signal });
+    let stderr = "";
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    child.on("error", (error: NodeJS.ErrnoException) =>
+      reject(notFound(error))
+    );
+    // Without an output ffmpeg exits with an error once it has listed them
+    child.on("close", () => {
+      const time = stderr.match(/Duration: (\d+):(\d+):([\d.]+)/);
+      const size = stderr.match(/Stream #\S+.*: Video: .*?(\d{2,5})x(\d{2,5})/);
+      const fps = stderr.match(/([\d.]+) fps/);
+      resolve({
+        duration: time
+          ? Number(time[1]) * 3600 + Number(time[2]) * 60 + Number(time[3])
+          : 0,
+        width: size ? Number(size[1]) : 1280,
+        height: size ? Number(size[2]) : 720,
+        fps: fps ? Number(fps[1]) : 24,
+        hasAudio: /Stream #\S+.*: Audio:/.test(stderr),
+      });
+    });
+  });
+}
+
+/**
+ * A filter graph that trims each range out of the first input and joins
+ * them, labelling the result `[v]` (and `[a]` with audio).
+ */
+function concatFilter(ranges: VideoRange[], withAudio: boolean): string {
+  const trims = ranges.flatMap(({ start, end }, i) => {
+    const span = `start=${start.toFixed(3)}:end=${end.toFixed(3)}`;
+    const video = `[0:v:0]trim=${span},setpts=PTS-STARTPTS[v${i}]`;
+    const audio = `[0:a:0]atrim=${span},asetpts=PTS-STARTPTS[a${i}]`;
+    return withAudio ? [video, audio] : [video];
+  });
+  const inputs = ranges
+    .map((_, i) => (withAudio ? `[v${i}][a${i}]` : `[v${i}]`))
+    .join("");
+  const outputs = withAudio ? "[v][a]" : "[v]";
+  const concat = `concat=n=${ranges.length}:v=1:a=${withAudio ? 1 : 0}`;
+  return [...trims, `${inputs}${concat}${outputs}`].join(";");
+}
+
+/**
+ * Keeps `ranges` of a video, in order, and joins them into one file. The
+ * result is re-encoded, so every cut lands on the exact frame rather than
+ * the nearest keyframe. Sources without audio stay silent.
+ */
+export async function trimVideo(
+  input: Buffer,
+  ranges: VideoRange[],
+  format: ExportFormat,
+  options: Omit<RunOptions, "durationSeconds"> = {}
+): Promise<{ data: Buffer; mimeType: string }> {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "alchemy-export-"));
+  try {
+    const source = path.join(dir, "source");
+    const output = path.join(dir, `output.${format}`);
+    await writeFile(source, input);
+    const { hasAudio: withAudio } = await probeVideo(source, options.signal);
+    await runFfmpeg(
+      [
+        ...["-i", source],
+        ...["-filter_complex", concatFilter(ranges, withAudio)],
+        ...["-map", "[v]", ...(withAudio ? ["-map", "[a]"] : [])],
+        ...ENCODERS[format].args,
+        output,
+      ],
+      { durationSeconds: editedDuration(ranges), ...options }
+    );
+    const { mimeType } = ENCODERS[format];
+    return { data: await readFile(output), mimeType };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/** One clip of a timeline render. */
+export interface RenderClip {
+  video: Buffer;
+  trim: VideoRange;
+  /** Into the next clip; ignored on the last one. */
+  transition: TransitionKind;
+  /** Replaces the clip's own sound; null mutes it. */
+  audio?: Buffer | null;
+  /** 1 keeps the level. */
+  volume: number;
+}
+
+/** Clip audio is brought to one layout so the clips can be joined. */
+const AUDIO_FORMAT =
+  "aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo";
+
+/** xfade transitions, by the timeline transition they render. */
+const XFADE: Record<Exclude<TransitionKind, "cut">, string> = {
+  crossfade: "fade",
+  "dip-to-black": "fadeblack",
+};
+
+/**
+ * Renders a timeline into one video: each clip trimmed and fitted to the
+ * first clip's frame, joined by its transition, and carrying its own audio.
+ * Transitions overlap the clips, so they never last more than half of
+ * either one.
+ */
+export async function renderTimeline(
+  clips: RenderClip[],
+  format: ExportFormat,
+  {
+    transitionSeconds,
+    ...options
+  }: Omit<RunOptions, "durationSeconds"> & { transitionSeconds: number }
+): Promise<{ data: Buffer; mimeType: string }> {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "alchemy-render-"));
+  try {
+    const videoFiles = clips.map((_, i) => path.join(dir, `clip${i}`));
+    await Promise.all(
+      clips.map((clip, i) => writeFile(videoFiles[i], clip.video))
+    );
+    const infos = await Promise.all(
+      videoFiles.map((file) => probeVideo(file, options.signal))
+    );
+    // Even sizes, as yuv420p requires
+    const width = infos[0].width - (infos[0].width % 2);
+    const height = infos[0].height - (infos[0].height % 2);
+    const fit =
+      `scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+      `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,` +
+      `fps=${infos[0].fps},format=yuv420p`;
+
+    // Replacement audio files are inputs after all of the clips
+    const audioFiles: string[] = [];
+    const filters: string[] = [];
+    const durations: number[] = [];
+    for (const [i, clip] of clips.entries()) {
+      const { duration, hasAudio } = infos[i];
+      const start = clip.trim.start;
+      const end = duration ? Math.min(clip.trim.end, duration) : clip.trim.end;
+      const length = end - start;
+      if (length <= 0) {
+        throw new GenerationError(
+          "INVALID_INPUT",
+          `Clip ${i + 1} is shorter than its trim start`
+        );
+      }
+      durations.push(length);
+
+      const span = `start=${start.toFixed(3)}:end=${end.toFixed(3)}`;
+      filters.push(
+        `[${i}:v:0]trim=${span},setpts=PTS-STARTPTS,${fit}[v${i}]`
+      );
+
+      const volume = `volume=${clip.volume}`;
+      if (clip.audio) {
+        const file = path.join(dir, `audio${i}`);
+        await writeFile(file, clip.audio);
+        audioFiles.push(file);
+        const input = clips.length + audioFiles.length - 1;
+        filters.push(
+          `[${input}:a:0]apad,atrim=duration=${length.toFixed(3)},` +
+            `asetpts=PTS-STARTPTS,${volume},${AUDIO_FORMAT}[a${i}]`
+        );
+      } else if (clip.audio === undefined && hasAudio) {
+        filters.push(
+          `[${i}:a:0]atrim=${span},asetpts=PTS-STARTPTS,` +
+            `${volume},${AUDIO_FORMAT}[a${i}]`
+        );
+      } else {
+        filters.push(
+          `anullsrc=r=48000:cl=stereo,atrim=duration=${length.toFixed(3)},` +
+            `${AUDIO_FORMAT}[a${i}]`
+        );
+      }
+    }
+
+    let video = "v0";
+    let audio = "a0";
+    let total = durations[0];
+    for (let i = 1; i < clips.length; i++) {
+      const transition = clips[i - 1].transition;
+      const joined = [`vj${i}`, `aj${i}`];
+      if (transition === "cut") {
+        filters.push(
+          `[${video}][v${i}]concat=n=2:v=1:a=0[${joined[0]}]`,
+          `[${audio}][a${i}]concat=n=2:v=0:a=1[${joined[1]}]`
+        );
+        total += durations[i];
+      } else {
+        const overlap = Math.min(
+          transitionSeconds,
+          durations[i - 1] / 2,
+          durations[i] / 2
+        );
+        const offset = (total - overlap).toFixed(3);
+        filters.push(
+          `[${video}][v${i}]xfade=transition=${XFADE[transition]}:` +
+            `duration=${overlap.toFixed(3)}:offset=${offset}[${joined[0]}]`,
+          `[${audio}][a${i}]acrossfade=d=${overlap.toFixed(3)}[${joined[1]}]`
+        );
+        total += durations[i] - overlap;
+      }
+      [video, audio] = joined;
+    }
+
+    const output = path.join(dir, `output.${format}`);
+    await runFfmpeg(
+      [
+        ...[...videoFiles, ...audioFiles].flatMap((file) => ["-i", file]),
+        ...["-filter_complex", filters.join(";")],
+        ...["-map", `[${video}]`, "-map", `[${audio}]`],
+        ...ENCODERS[format].args,
+        output,
+      ],
+      { durationSeconds: total, ...options }
+    );
+    const { mimeType } = ENCODERS[format];
+    return { data: await readFile(output), mimeType };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,178 @@
+import { staticFilesUrl } from "@/lib/constants";
+import { GenerationError } from "@/lib/errors";
+import {
+  timelineClipSchema,
+  timelineRenderSchema,
+  VIDEO_MIME_TYPES,
+} from "@/lib/schemas";
+import { readAsset } from "@/lib/storage";
+import { formNumbers, validate } from "@/lib/validation";
+import { RenderClip } from "@/lib/video";
+import { FieldIssue } from "@/types/errors";
+import { ExportFormat, TransitionKind } from "@/types/video";
+
+const ASSET_PATH = /^\/api\/assets\/([\w-]+)$/;
+
+/** Transitions last this long unless the request says otherwise. */
+const DEFAULT_TRANSITION_SECONDS = 0.5;
+
+/** A stored studio result, a gallery video, or null for anything else. */
+async function readClipSource(
+  source: string,
+  signal: AbortSignal
+): Promise<Buffer | null> {
+  const asset = source.match(ASSET_PATH);
+  if (asset) {
+    const stored = await readAsset(asset[1]);
+    return stored && stored.asset.mimeType.startsWith("video/")
+      ? stored.data
+      : null;
+  }
+  // Only the gallery's own files, so the server never fetches arbitrary URLs
+  if (!source.startsWith(staticFilesUrl)) return null;
+  const resp = await fetch(source, { signal });
+  if (!resp.ok) {
+    throw new GenerationError(
+      "UNKNOWN",
+      "Failed to fetch a gallery video",
+      `${source} answered ${resp.status}`
+    );
+  }
+  return Buffer.from(await resp.arrayBuffer());
+}
+
+/**
+ * Reads the multipart body of `/api/video/render`. Every clip repeats the
+ * same fields, matched up by position:
+ * - `clips`: an uploaded video, a `/api/assets/:id` path or a gallery URL
+ * - `trimStart`, `trimEnd`: the part of the clip to use, in seconds
+ * - `transition`: how it hands over to the next clip
+ * - `clipAudio`: `clip`, `mute`, or an audio file to play instead
+ * - `volume`: 0 to 2
+ *
+ * Resolves to the failing fields when the request is unusable.
+ */
+export async function parseRenderRequest(req: Request): Promise<
+  | {
+      clips: RenderClip[];
+      format: ExportFormat;
+      transitionSeconds: number;
+    }
+  | { issues: FieldIssue[] }
+> {
+  const contentType = req.headers.get("content-type") || "";
+
+  if (!contentType.includes("multipart/form-data")) {
+    return {
+      issues: [{ field: "body", message: "Expected multipart/form-data" }],
+    };
+  }
+
+  const form = await req.formData();
+  const sources = form.getAll("clips");
+  const trimStarts = formNumbers(form, "trimStart");
+  const trimEnds = formNumbers(form, "trimEnd");
+  const transitions = form.getAll("transition").map(String);
+  const audios = form.getAll("clipAudio");
+  const volumes = formNumbers(form, "volume");
+  const format = ((form.get("format") as string) || "mp4") as ExportFormat;
+  const transitionSeconds =
+    formNumbers(form, "transitionSeconds")[0] ?? DEFAULT_TRANSITION_SECONDS;
+
+  const issues = validate(timelineRenderSchema, {
+    clips: sources.length,
+    format,
+    transitionSeconds,
+  });
+  const repeated = {
+    trimStart: trimStarts,
+    trimEnd: trimEnds,
+    transition: transitions,
+    clipAudio: audios,
+    volume: volumes,
+  };
+  for (const [field, values] of Object.entries(repeated)) {
+    if (values.length !== sources.length) {
+      issues.push({ field, message: "Needs one value per clip" });
+    }
+  }
+  if (issues.length > 0) {
+    return { issues };
+  }
+
+  const clips: RenderClip[] = [];
+  for (const [i, source] of sources.entries()) {
+    const label = `Clip ${i + 1}: `;
+    const trimStart = trimStarts[i];
+    const trimEnd = trimEnds[i];
+    const audio = audios[i];
+    const found = validate(timelineClipSchema, {
+      trimStart,
+      trimEnd,
+      transition: transitions[i],
+      volume: volumes[i],
+    });
+    if (
+      trimStart !== undefined &&
+      trimEnd !== undefined &&
+      trimEnd <= trimStart
+    ) {
+      found.push({ field: "trimEnd", message: "Must be after trimStart" });
+    }
+
+    let video: Buffer | null = null;
+    if (source instanceof File) {
+      if (VIDEO_MIME_TYPES.some((type) => source.type.startsWith(type))) {
+        video = Buffer.from(await source.arrayBuffer());
+      } else {
+        found.push({
+          field: "clips",
+          message: `Unsupported video type "${source.type || "unknown"}"`,
+        });
+      }
+    } else {
+      video = await readClipSource(source, req.signal);
+      if (!video) {
+        found.push({ field: "clips", message: "Unknown video source" });
+      }
+    }
+
+    if (audio instanceof File && !audio.type.startsWith("audio/")) {
+      found.push({
+        field: "clipAudio",
+        message: `Unsupported audio type "${audio.type || "unknown"}"`,
+      });
+    } else if (!(audio instanceof File) && !["clip", "mute"].includes(audio)) {
+      found.push({
+        field: "clipAudio",
+        message: "Must be clip, mute or an audio file",
+      });
+    }
+
+    issues.push(
+      ...found.map(({ field, message }) => ({
+        field,
+        message: label + message,
+      }))
+    );
+    if (found.length > 0 || !video) continue;
+
+    clips.push({
+      video,
+      trim: { start: trimStart as number, end: trimEnd as number },
+      transition: (transitions[i] || "cut") as TransitionKind,
+      audio:
+        audio instanceof File
+          ? Buffer.from(await audio.arrayBuffer())
+          : audio === "mute"
+          ? null
+          : undefined,
+      volume: volumes[i] ?? 1,
+    });
+  }
+  if (issues.length > 0) {
+    return { issues };
+  }
+
+  return { clips, format, transitionSeconds };
+}
@@ -0,0 +1,90 @@
+import { EditRegion, VideoRange } from "@/types/video";
+
+/** Slivers shorter than this, in seconds, are dropped from an edit. */
+const MIN_SEGMENT_SECONDS = 0.05;
+
+/** Sorts ranges by start and merges the ones that touch or overlap. */
+export function mergeRanges(ranges: VideoRange[]): VideoRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: VideoRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ start: range.start, end: range.end });
+    }
+  }
+  return merged;
+}
+
+/**
+ * The parts of a video an edit keeps, in order: the keep regions (or the
+ * whole video when there are none) minus the remove regions.
+ */
+export function keptSegments(
+  regions: EditRegion[],
+  duration: number
+): VideoRange[] {
+  const keeps = regions.filter((region) => region.kind === "keep");
+  let kept =
+    keeps.length > 0 ? mergeRanges(keeps) : [{ start: 0, end: duration }];
+  for (const cut of regions.filter((region) => region.kind === "remove")) {
+    kept = kept.flatMap((range) => [
+      { start: range.start, end: Math.min(range.end, cut.start) },
+      { start: Math.max(range.start, cut.end), end: range.end },
+    ]);
+  }
+  return kept.filter(
+    (range) => range.end - range.start >= MIN_SEGMENT_SECONDS
+  );
+}
+
+/** Running time of the edited video. */
+export function editedDuration(segments: VideoRange[]): number {
+  return segments.reduce((total, { start, end }) => total + end - start, 0);
+}
+
+/** Maps a time on the edited timeline to the source video. */
+export function toSourceTime(segments: VideoRange[], time: number): number {
+  let remaining = time;
+  for (const { start, end } of segments) {
+    if (remaining <= end - start) return start + remaining;
+    remaining -= end - start;
+  }
+  return segments.length > 0 ? segments[segments.length - 1].end : time;
+}
+
+/**
+ * Maps a source time to the edited timeline. Times in a removed gap map to
+ * where the next kept segment begins.
+ */
+export function toEditedTime(segments: VideoRange[], time: number): number {
+  let elapsed = 0;
+  for (const { start, end } of segments) {
+    if (time < start) return elapsed;
+    if (time <= end) return elapsed + time - start;
+    elapsed += end - start;
+  }
+  return elapsed;
+}
+
+/**
+ * Where playback at `time` should continue: null while it is inside a
+ * segment, otherwise the start of the next one (or the first, to loop).
+ * `lookahead`, about a frame, jumps early enough that no frame of a gap is
+ * shown and tolerates seeks that land just short of a start.
+ */
+export function skipTarget(
+  segments: VideoRange[],
+  time: number,
+  lookahead = 0
+): number | null {
+  if (segments.length === 0) return null;
+  const inside = segments.some(
+    ({ start, end }) => time >= start - lookahead && time < end - lookahead
+  );
+  if (inside) return null;
+  const next = segments.find(({ start }) => start > time);
+  return (next ?? segments[0]).start;
+}
@@ -0,0 +1,69 @@
+import { classifyProviderError } from "@/lib/ai";
+import { assetUrl } from "@/lib/jobs/client";
+import { pruneExpiredAssets, saveAsset } from "@/lib/storage";
+import { ExportResult } from "@/types/video";
+
+/**
+ * Exports are fetched once, right after they are made, so they are only kept
+ * for a while.
+ */
+const EXPORT_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Runs an ffmpeg export and streams it as Server-Sent Events: `progress`
+ * with the fraction done, then `done` with where the stored file can be
+ * fetched, or `error` with the coded error body.
+ */
+export function exportEvents(
+  signal: AbortSignal,
+  run: (
+    onProgress: (fraction: number) => void
+  ) => Promise<{ data: Buffer; mimeType: string }>
+): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        );
+
+      try {
+        send("progress", { progress: 0 });
+        // Each export clears out the earlier ones that have expired
+        await pruneExpiredAssets();
+        const output = await run((progress) => send("progress", { progress }));
+        const asset = await saveAsset(output.data, output.mimeType, {
+          ttlMs: EXPORT_TTL_MS,
+        });
+        const result: ExportResult = {
+          url: assetUrl(asset.id),
+          mimeType: output.mimeType,
+        };
+        send("done", result);
+        controller.close();
+      } catch (error) {
+        // Nobody is listening once the client has gone away, but the stream
+        // still has to end.
+        if (signal.aborted) {
+          controller.error(error);
+          return;
+        }
+        console.error("Error exporting video:", error);
+        send(
+          "error",
+          classifyProviderError(error, "Failed to export video").toJSON()
+        );
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
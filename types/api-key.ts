@@ -0,0 +1,13 @@
+/** Which Gemini key a request was served with. */
+export type KeySource = "personal" | "server";
+
+/**
+ * What `/api/settings/api-key` reports about the caller's keys. The personal
+ * key itself never leaves the server; only its last characters are shown.
+ */
+export interface ApiKeyStatus {
+  source: KeySource;
+  /** Masked personal key, e.g. "…x7Qa", when one is set. */
+  hint?: string;
+  serverKeyAvailable: boolean;
+}
@@ -0,0 +1,30 @@
+/**
+ * Stable failure codes routes attach to errors so the UI can explain them.
+ */
+export type ErrorCode =
+  | "QUOTA_EXCEEDED"
+  | "SAFETY_BLOCKED"
+  | "TIER_REQUIRED"
+  | "INVALID_INPUT"
+  | "UPSTREAM_TIMEOUT"
+  | "NO_OUTPUT"
+  | "UNKNOWN";
+
+/** A request field that failed validation. */
+export interface FieldIssue {
+  field: string;
+  message: string;
+}
+
+/**
+ * JSON body of every failed API response.
+ */
+export interface ApiErrorBody {
+  /** Short human-readable summary. */
+  error: string;
+  code: ErrorCode;
+  /** Upstream message or other specifics, when there are any. */
+  details?: string;
+  /** The failing fields of an INVALID_INPUT request. */
+  fields?: FieldIssue[];
+}
@@ -0,0 +1,67 @@
+import { KeySource } from "./api-key";
+import { ErrorCode } from "./errors";
+
+/**
+ * Lifecycle of a server-side generation job.
+ */
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "cancelled";
+
+export type JobMode = "text-to-video" | "image-to-video";
+
+/**
+ * The user-facing generation parameters. Input images are forwarded upstream
+ * when the job starts and are not persisted.
+ */
+export interface JobParams {
+  prompt: string;
+  negativePrompt?: string;
+  aspectRatio?: string;
+  seed?: number;
+  numberOfVideos?: number;
+  personGeneration?: string;
+  resolution?: string;
+  durationSeconds?: number;
+}
+
+/**
+ * Persistent record of a generation the server tracks on the client's behalf.
+ */
+export interface Job {
+  id: string;
+  mode: JobMode;
+  model: string;
+  params: JobParams;
+  status: JobStatus;
+  /** Whether the caller's own Gemini key or the server's runs the job. */
+  keySource?: KeySource;
+  /** Hash of the owner cookie of whoever started the job. */
+  ownerId?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  /** Name of the upstream long-running operation, once started. */
+  operationName?: string;
+  /** Latest progress metadata reported by the upstream operation. */
+  metadata?: Record<string, unknown>;
+  resultAssetIds: string[];
+  error?: string;
+  /** Set alongside `error` when the job failed. */
+  errorCode?: ErrorCode;
+  errorDetails?: string;
+}
+
+/**
+ * Payload of the `progress` and `done` events streamed from
+ * `/api/jobs/:id/events`.
+ */
+export interface JobEvent {
+  job: Job;
+  elapsedMs: number;
+  /** Where the finished videos can be fetched; empty until the job succeeds. */
+  videoUrls: string[];
+}
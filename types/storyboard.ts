@@ -0,0 +1,17 @@
+/** One shot of a storyboard scene, generated as its own Veo clip. */
+export interface StoryboardShot {
+  id: string;
+  prompt: string;
+  /** Framing and movement, e.g. "slow dolly in, low angle". */
+  camera: string;
+  /** Image the shot starts from; unused when it continues the previous one. */
+  image: File | null;
+  /** Start from the last frame of the previous shot's clip. */
+  continuePrevious: boolean;
+}
+
+/**
+ * Where a shot stands while the storyboard generates. A shot that continues
+ * the previous one is `waiting` until that one's clip is done.
+ */
+export type ShotStatus = "idle" | "waiting" | "generating" | "done" | "failed";
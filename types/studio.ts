@@ -0,0 +1,48 @@
+/** The studio's top-level modes, one per Composer tab. */
+export type StudioMode =
+  | "create-image"
+  | "edit-image"
+  | "compose-image"
+  | "extend-image"
+  | "create-video"
+  | "storyboard"
+  | "product-gallery";
+
+/** Modes that run a model; the storyboard and gallery have their own flows. */
+export type GenerationMode = Exclude<
+  StudioMode,
+  "storyboard" | "product-gallery"
+>;
+
+/** Where the current image sits on the larger canvas when extending it. */
+export type CanvasAnchor =
+  | "top-left"
+  | "top"
+  | "top-right"
+  | "left"
+  | "center"
+  | "right"
+  | "bottom-left"
+  | "bottom"
+  | "bottom-right";
+
+/** What an input image contributes to a composition. */
+export type ComposeRole = "subject" | "style" | "background" | "product";
+
+/** Whether generated images and videos may depict people. */
+export type PersonGeneration = "dont_allow" | "allow_adult" | "allow_all";
+
+/**
+ * Options of the Composer's advanced settings panel. Only the ones the
+ * selected model supports are sent.
+ */
+export interface GenerationSettings {
+  aspectRatio: string;
+  negativePrompt: string;
+  /** Unset for a random seed. */
+  seed?: number;
+  numberOfOutputs: number;
+  personGeneration?: PersonGeneration;
+  resolution?: string;
+  durationSeconds?: number;
+}
@@ -0,0 +1,24 @@
+/** Containers `/api/video/export` can produce: H.264/AAC MP4 or VP9/Opus WebM. */
+export type ExportFormat = "mp4" | "webm";
+
+/** A span of the source video, in seconds. */
+export interface VideoRange {
+  start: number;
+  end: number;
+}
+
+/** A span marked on the trimmer, to keep or to cut out. */
+export interface EditRegion extends VideoRange {
+  id: string;
+  kind: "keep" | "remove";
+}
+
+/** How a timeline clip hands over to the next one. */
+export type TransitionKind = "cut" | "crossfade" | "dip-to-black";
+
+/** Payload of the `done` event streamed by the `/api/video` exports. */
+export interface ExportResult {
+  /** Where the exported file can be fetched. */
+  url: string;
+  mimeType: string;
+}